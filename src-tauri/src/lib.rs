@@ -1,3 +1,6 @@
+use tauri::{DragDropEvent, WindowEvent};
+use tauri_plugin_fs::FsExt;
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
@@ -10,13 +13,26 @@ pub fn run() {
                 )?;
             }
 
-            // Load the file system and dialog plugins
+            // Load the file system and dialog plugins. Only files the user
+            // picked or dropped can be read; the persisted scope keeps that
+            // access across restarts so the session's tabs can be reopened.
             app.handle().plugin(tauri_plugin_fs::init())?;
+            app.handle().plugin(tauri_plugin_persisted_scope::init())?;
             app.handle().plugin(tauri_plugin_dialog::init())?;
             app.handle().plugin(tauri_plugin_process::init())?;
 
             Ok(())
         })
+        .on_window_event(|window, event| {
+            // Files dropped onto the window may be read, like files picked
+            // in the open dialog
+            if let WindowEvent::DragDrop(DragDropEvent::Drop { paths, .. }) = event {
+                let scope = window.fs_scope();
+                for path in paths {
+                    let _ = scope.allow_file(path);
+                }
+            }
+        })
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
@@ -1,8 +1,113 @@
-import { useState, ReactNode, useEffect, useRef } from "react";
+import {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useCallback,
+} from "react";
 import "./App.css";
+import CollapsibleJSON, { TreeCommand } from "./components/CollapsibleJSON";
+import CommandPalette from "./components/CommandPalette";
+import DiffView from "./components/DiffView";
+import JsonEditor from "./components/JsonEditor";
+import KeyBindingsDialog from "./components/KeyBindingsDialog";
+import ParseDiagnostics from "./components/ParseDiagnostics";
+import SearchBar, { QueryStatus, SearchMode } from "./components/SearchBar";
+import SplitPane from "./components/SplitPane";
+import TypeGenerator from "./components/TypeGenerator";
+import ValidationPanel from "./components/ValidationPanel";
+import {
+  findPathInWorker,
+  findRangeInWorker,
+  isAbortError,
+  parseJsonInWorker,
+  queryJsonInWorker,
+  releaseWorkerDocument,
+  validateJsonInWorker,
+} from "./utils/jsonWorkerClient";
+import {
+  ChangeKind,
+  DocumentHistory,
+  DocumentSnapshot,
+  EMPTY_HISTORY,
+  recordChange,
+  redoChange,
+  undoChange,
+} from "./utils/history";
+import {
+  resolveSchemaReference,
+  SchemaError,
+  SchemaSource,
+  ValidationResult,
+} from "./utils/jsonSchema";
+import {
+  DIALECT_EXTENSIONS,
+  getDialectExtension,
+  getDialectForPath,
+  getNdjsonLineNumbers,
+  JSON_DIALECTS,
+  JsonDialect,
+  serializeDocument,
+} from "./utils/jsonDialect";
+import {
+  COMMANDS,
+  CommandId,
+  createBindingMap,
+  formatBinding,
+  getBindings,
+  getEventBinding,
+  KeyBindingOverrides,
+  loadKeyBindings,
+  saveKeyBindings,
+} from "./utils/commands";
+import { applyRepairs, ParseDiagnostic } from "./utils/jsonParser";
+import { getValueAt } from "./utils/jsonEdit";
+import {
+  detectImportFormat,
+  exportDocument,
+  EXPORT_FORMATS,
+  ExportFormat,
+  getImportFormatForPath,
+  IMPORT_FORMATS,
+  importDocument,
+} from "./utils/formatConversion";
+import {
+  isJsonContainer,
+  JsonContainer,
+  TreeViewState,
+} from "./utils/jsonTree";
+import {
+  PathSegment,
+  QueryLanguage,
+  QueryResult,
+  toTreePath,
+} from "./utils/query";
+import {
+  createSearchRegex,
+  DEFAULT_SEARCH_OPTIONS,
+  SearchOptions,
+} from "./utils/search";
+import {
+  INLINE_CONTENT_LIMIT,
+  loadSession,
+  PersistedTab,
+  saveSession,
+  SplitLayout,
+} from "./utils/session";
+import { watchFile } from "./utils/fileWatch";
+import {
+  addRecentFiles,
+  loadRecentFiles,
+  removeRecentFiles,
+  saveRecentFiles,
+} from "./utils/recentFiles";
+import { ParseResult, WorkerProgress } from "./workers/protocol";
 // Use the plugin imports for Tauri v2
-import { open } from "@tauri-apps/plugin-dialog";
-import { readTextFile } from "@tauri-apps/plugin-fs";
+import { isTauri } from "@tauri-apps/api/core";
+import { getCurrentWebview } from "@tauri-apps/api/webview";
+import { ask, open, save } from "@tauri-apps/plugin-dialog";
+import { readTextFile, writeTextFile } from "@tauri-apps/plugin-fs";
 // Import dnd-kit components
 import {
   DndContext,
@@ -22,731 +127,280 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 
+// Inputs at least this long show parse progress while the worker is busy
+const LARGE_INPUT_LENGTH = 1_000_000;
+// Delay before writing the session so that bursts of changes are saved once
+const SESSION_SAVE_DEBOUNCE_MS = 500;
+// Delay before validating so that typing doesn't queue up validations
+const VALIDATION_DEBOUNCE_MS = 300;
+
+// A schema attached to a tab. Schemas read from a file keep their content.
+type AttachedSchema =
+  | { kind: "tab"; tabId: string }
+  | { kind: "file"; path: string; data: unknown };
+
+// How a tab's file changed on disk: reloaded into the tab, changed while
+// the tab has unsaved edits, which waits for the user to pick one, deleted
+// or moved away, or not readable when the session was restored, e.g. when
+// the app may no longer access it. A file that can't be watched is
+// reported as well, since its changes would go unnoticed.
+type DiskChange =
+  | { kind: "reloaded" }
+  | { kind: "conflict"; content: string }
+  | { kind: "removed" }
+  | { kind: "unavailable"; error: string }
+  | { kind: "unwatched"; error: string };
+
 // Define a Tab type for our tabs
 type JsonTab = {
   id: string;
   name: string;
   jsonInput: string;
+  // Syntax of jsonInput, also used when the document is written back
+  dialect: JsonDialect;
   parsedJson: Record<string, unknown> | unknown[] | null;
+  // Problems in jsonInput; parsedJson then holds the part that was recovered
+  diagnostics: ParseDiagnostic[];
   isEditing: boolean;
   searchTerm: string;
+  searchOptions: SearchOptions;
+  searchMode: SearchMode;
+  query: string;
+  // File the tab was opened from or last saved to
+  filePath: string | null;
+  // Text as last opened or saved, to tell whether there are unsaved edits
+  savedInput: string;
+  // Expanded nodes and scroll position of the tree view
+  viewState: TreeViewState | null;
+  // Undo and redo steps of the document, not kept across sessions
+  history: DocumentHistory;
+  // JSON Schema the document is validated against
+  schema: AttachedSchema | null;
+  // Derived documents such as query results can't be edited
+  readOnly?: boolean;
+  // Whether an NDJSON file is followed as it grows, appending new records
+  tail: boolean;
+  // Set when the file changed on disk, until the notice is dismissed
+  diskChange: DiskChange | null;
 };
 
-// CollapsibleJSON component for rendering expandable JSON objects
-const CollapsibleJSON = ({
-  data,
-  searchTerm,
-  onSwitchToEdit,
-  onToggleSearch,
-  showSearchBar,
-}: {
-  data: Record<string, unknown> | unknown[];
-  searchTerm: string;
-  onSwitchToEdit: () => void;
-  onToggleSearch: () => void;
-  showSearchBar: boolean;
-}) => {
-  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
-  const [matchCount, setMatchCount] = useState<number>(0);
-  const [currentMatchIndex, setCurrentMatchIndex] = useState<number>(0);
-  const [matchPositions, setMatchPositions] = useState<string[]>([]);
-  const [showTopButton, setShowTopButton] = useState<boolean>(false);
-  const matchRefs = useRef<Map<string, HTMLElement>>(new Map());
-  const containerRef = useRef<HTMLDivElement | null>(null);
-
-  // Effect to reset match navigation when search term changes
-  useEffect(() => {
-    setCurrentMatchIndex(0);
-    matchRefs.current = new Map();
-  }, [searchTerm]);
-
-  // Add scroll event listener to show/hide top button
-  useEffect(() => {
-    // Find the json-container - it's the parent of our component
-    const jsonContainer = containerRef.current?.closest(".json-container");
-
-    const handleScroll = (e: Event) => {
-      const target = e.target as HTMLElement;
-      setShowTopButton(target.scrollTop > 200);
-    };
-
-    if (jsonContainer) {
-      jsonContainer.addEventListener("scroll", handleScroll);
-
-      // Initial check
-      setShowTopButton(jsonContainer.scrollTop > 200);
-    }
-
-    return () => {
-      if (jsonContainer) {
-        jsonContainer.removeEventListener("scroll", handleScroll);
-      }
-    };
-  }, [data]); // Re-attach when data changes since container might change
-
-  // Function to get all paths in the JSON structure
-  const getAllPaths = (value: unknown, path = "root"): string[] => {
-    const paths: string[] = [path];
-
-    if (value && typeof value === "object") {
-      if (Array.isArray(value)) {
-        value.forEach((item, index) => {
-          paths.push(...getAllPaths(item, `${path}.${index}`));
-        });
-      } else {
-        Object.entries(value).forEach(([key, val]) => {
-          paths.push(...getAllPaths(val, `${path}.${key}`));
-        });
-      }
-    }
-
-    return paths;
-  };
-
-  // Expand all nodes initially
-  useEffect(() => {
-    const allPaths = getAllPaths(data);
-    setExpandedNodes(new Set(allPaths));
-  }, [data]);
-
-  // Collapse all nodes
-  const collapseAll = () => {
-    setExpandedNodes(new Set());
-  };
-
-  // Expand all nodes
-  const expandAll = () => {
-    const allPaths = getAllPaths(data);
-    setExpandedNodes(new Set(allPaths));
-  };
-
-  // Scroll to top of the component
-  const scrollToTop = () => {
-    const jsonContainer = containerRef.current?.closest(".json-container");
-    if (jsonContainer) {
-      jsonContainer.scrollTo({ top: 0, behavior: "smooth" });
-    }
-  };
-
-  const toggleNode = (path: string) => {
-    const newExpanded = new Set(expandedNodes);
-    if (newExpanded.has(path)) {
-      newExpanded.delete(path);
-    } else {
-      newExpanded.add(path);
-    }
-    setExpandedNodes(newExpanded);
-  };
-
-  // Highlight text that matches search term
-  const highlightMatches = (
-    text: string,
-    path: string,
-    type: "key" | "string" | "primitive"
-  ): ReactNode => {
-    if (!searchTerm.trim()) return text;
-
-    // Use case-insensitive regex for finding matches
-    const searchRegex = new RegExp(`(${escapeRegExp(searchTerm)})`, "gi");
-    const parts = String(text).split(searchRegex);
-
-    if (parts.length <= 1) return text;
-
-    // Find all matches within this text
-    const matches: { start: number; end: number; text: string }[] = [];
-    let match;
-    const regex = new RegExp(escapeRegExp(searchTerm), "gi");
-
-    // Reset regex index
-    regex.lastIndex = 0;
-
-    // Find all matches and their positions
-    while ((match = regex.exec(text)) !== null) {
-      matches.push({
-        start: match.index,
-        end: match.index + match[0].length,
-        text: match[0], // Store the actual matched text
-      });
-    }
-
-    // Create array to store highlighted parts
-    const highlightedParts: React.ReactNode[] = [];
-    let lastIndex = 0;
-
-    // Process each match
-    matches.forEach((match, index) => {
-      // Add text before the match
-      if (match.start > lastIndex) {
-        highlightedParts.push(text.substring(lastIndex, match.start));
-      }
-
-      // Generate a unique ID for this match using the actual matched text
-      const matchId = `${path}:${type}:${index}:${match.text.toLowerCase()}`;
-
-      // Check if this match is the current one
-      const isCurrentMatch =
-        matchPositions.length > 0 &&
-        currentMatchIndex >= 0 &&
-        currentMatchIndex < matchPositions.length &&
-        matchPositions[currentMatchIndex] === matchId;
-
-      // Add the highlighted match
-      highlightedParts.push(
-        <mark
-          key={matchId}
-          className={
-            isCurrentMatch
-              ? "search-highlight current-match"
-              : "search-highlight"
-          }
-          ref={(el) => registerMatchRef(matchId, el)}
-          data-match-id={matchId}
-        >
-          {match.text}
-        </mark>
-      );
-
-      lastIndex = match.end;
-    });
-
-    // Add any remaining text after the last match
-    if (lastIndex < text.length) {
-      highlightedParts.push(text.substring(lastIndex));
-    }
-
-    return highlightedParts;
-  };
-
-  // Find all paths where search term matches
-  useEffect(() => {
-    if (!searchTerm.trim()) {
-      setMatchCount(0);
-      setMatchPositions([]);
-      setCurrentMatchIndex(0);
-      return;
-    }
-
-    // Clear previous refs when search term changes
-    matchRefs.current.clear();
-
-    const searchLower = searchTerm.toLowerCase();
-    const matches = new Set<string>();
-    const pathsToExpand = new Set<string>();
-    let count = 0;
-    const positions: string[] = [];
-
-    const findMatches = (value: unknown, path: string) => {
-      // Check string values
-      if (
-        typeof value === "string" &&
-        value.toLowerCase().includes(searchLower)
-      ) {
-        matches.add(path);
-        // Count occurrences within this string
-        const regex = new RegExp(escapeRegExp(searchLower), "gi");
-        const text = value;
-
-        // Reset regex index
-        regex.lastIndex = 0;
-
-        // Find each occurrence and record its exact match
-        let match;
-        let matchIndex = 0;
-        while ((match = regex.exec(text)) !== null) {
-          const exactMatch = match[0].toLowerCase();
-          positions.push(`${path}:string:${matchIndex}:${exactMatch}`);
-          matchIndex++;
-        }
+// The last query run, kept with the document it was run against
+type QueryOutcome = {
+  tabId: string;
+  data: JsonTab["parsedJson"];
+  language: QueryLanguage;
+  query: string;
+  // null while the query is still running
+  result: QueryResult | null;
+};
 
-        count += matchIndex;
+// The last validation of a tab. It stays shown while an edited document is
+// validated again, so the flagged nodes don't flicker.
+type ValidationOutcome = {
+  tabId: string;
+  schema: unknown;
+  result: ValidationResult;
+};
 
-        // Add all parent paths to expand
-        let currentPath = path;
-        while (currentPath.includes(".")) {
-          currentPath = currentPath.substring(0, currentPath.lastIndexOf("."));
-          pathsToExpand.add(currentPath);
-        }
+// Tabs created together, e.g. for several files, still get their own ids
+let createdTabCount = 0;
+
+// Create a tab with default state, overridden by the given fields
+const createTab = (overrides: Partial<JsonTab> = {}): JsonTab => ({
+  id: `tab-${Date.now()}-${createdTabCount++}`,
+  name: "Untitled",
+  jsonInput: "",
+  dialect: "json",
+  parsedJson: null,
+  diagnostics: [],
+  isEditing: true,
+  searchTerm: "",
+  searchOptions: DEFAULT_SEARCH_OPTIONS,
+  searchMode: "text",
+  query: "",
+  filePath: null,
+  savedInput: "",
+  viewState: null,
+  history: EMPTY_HISTORY,
+  schema: null,
+  tail: false,
+  diskChange: null,
+  ...overrides,
+});
+
+// Tab fields for the outcome of parsing its text. A document that doesn't
+// parse shows what could be recovered, if that is an object or array.
+const getParsedFields = (
+  result: ParseResult
+): Pick<JsonTab, "parsedJson" | "diagnostics" | "dialect"> =>
+  result.ok
+    ? {
+        parsedJson: result.value as JsonTab["parsedJson"],
+        diagnostics: [],
+        dialect: result.dialect,
       }
+    : {
+        parsedJson: isJsonContainer(result.recovered) ? result.recovered : null,
+        diagnostics: result.diagnostics,
+        dialect: result.dialect,
+      };
 
-      // Check object keys - similar updates for keys
-      if (typeof value === "object" && value !== null) {
-        if (Array.isArray(value)) {
-          value.forEach((item, index) => {
-            findMatches(item, `${path}.${index}`);
-          });
-        } else {
-          Object.entries(value).forEach(([key, val]) => {
-            // Check if key matches search term
-            if (key.toLowerCase().includes(searchLower)) {
-              matches.add(`${path}.${key}`);
-
-              // Find each occurrence in the key
-              const regex = new RegExp(escapeRegExp(searchLower), "gi");
-              const text = key;
-
-              // Reset regex index
-              regex.lastIndex = 0;
-
-              // Find each match with its exact text
-              let match;
-              let matchIndex = 0;
-              while ((match = regex.exec(text)) !== null) {
-                const exactMatch = match[0].toLowerCase();
-                positions.push(
-                  `${path}.${key}:key:${matchIndex}:${exactMatch}`
-                );
-                matchIndex++;
-              }
-
-              count += matchIndex;
-              pathsToExpand.add(path);
-            }
-            findMatches(val, `${path}.${key}`);
-          });
-        }
-      }
+// Whether a tab has edits that haven't been saved to a file
+const isTabDirty = (tab: JsonTab) =>
+  !tab.readOnly && tab.jsonInput !== tab.savedInput;
 
-      // Check primitive values - same update for primitives
-      if (typeof value === "number" || typeof value === "boolean") {
-        const strValue = String(value);
-        if (strValue.toLowerCase().includes(searchLower)) {
-          matches.add(path);
-
-          // Find each occurrence
-          const regex = new RegExp(escapeRegExp(searchLower), "gi");
-          const text = strValue;
-
-          // Reset regex index
-          regex.lastIndex = 0;
-
-          // Find each match with its exact text
-          let match;
-          let matchIndex = 0;
-          while ((match = regex.exec(text)) !== null) {
-            const exactMatch = match[0].toLowerCase();
-            positions.push(`${path}:primitive:${matchIndex}:${exactMatch}`);
-            matchIndex++;
-          }
+const getFileName = (path: string) => path.split(/[/\\]/).pop() || "Untitled";
 
-          count += matchIndex;
+// A document read from a file, to be opened in a tab
+type OpenedFile = {
+  name: string;
+  // null when the tab can't be saved back to the file: for converted
+  // formats, and for files dropped in the browser, which have no path
+  filePath: string | null;
+  content: string;
+  // null when it is detected from the content
+  dialect: JsonDialect | null;
+};
 
-          // Add all parent paths to expand
-          let currentPath = path;
-          while (currentPath.includes(".")) {
-            currentPath = currentPath.substring(
-              0,
-              currentPath.lastIndexOf(".")
-            );
-            pathsToExpand.add(currentPath);
-          }
-        }
-      }
+// Prepare a file's text for a tab. The dialect comes from the file name, or
+// is detected from the content for .json and unknown extensions. Other
+// formats are converted to JSON, and the tab isn't tied to the original
+// file so that saving can't overwrite it with JSON.
+const toOpenedFile = (
+  name: string,
+  path: string | null,
+  text: string
+): { ok: true; file: OpenedFile } | { ok: false; error: string } => {
+  const importFormat = getImportFormatForPath(name);
+  if (!importFormat) {
+    return {
+      ok: true,
+      file: {
+        name,
+        filePath: path,
+        content: text,
+        dialect: getDialectForPath(name),
+      },
     };
-
-    findMatches(data, "root");
-    setMatchCount(count);
-    setMatchPositions(positions);
-
-    // Add all matches and paths to expand to expanded nodes
-    if (matches.size > 0) {
-      const newExpanded = new Set(expandedNodes);
-      pathsToExpand.forEach((path) => newExpanded.add(path));
-      matches.forEach((path) => {
-        // Add parent path of matched value
-        const parentPath = path.substring(0, path.lastIndexOf("."));
-        newExpanded.add(parentPath);
-        newExpanded.add("root"); // Always expand root
-      });
-      setExpandedNodes(newExpanded);
-    }
-  }, [searchTerm, data]);
-
-  // Register ref for a match element
-  const registerMatchRef = (id: string, element: HTMLElement | null) => {
-    if (element && searchTerm.trim() !== "") {
-      matchRefs.current.set(id, element);
-    }
-  };
-
-  // Navigate to next match
-  const goToNextMatch = () => {
-    if (matchCount === 0) return;
-
-    const nextIndex = (currentMatchIndex + 1) % matchCount;
-    setCurrentMatchIndex(nextIndex);
-
-    // Scroll to the match with a small delay to ensure refs are properly registered
-    setTimeout(() => {
-      const matchId = matchPositions[nextIndex];
-      const element = matchRefs.current.get(matchId);
-
-      if (element) {
-        // Update current-match class on all highlights
-        document.querySelectorAll(".current-match").forEach((el) => {
-          el.classList.remove("current-match");
-        });
-        element.classList.add("current-match");
-
-        element.scrollIntoView({ behavior: "smooth", block: "center" });
-      } else {
-        // Try to find the match in the DOM directly as fallback
-        const matchElement = document.querySelector(
-          `[data-match-id="${matchId}"]`
-        );
-        if (matchElement) {
-          document.querySelectorAll(".current-match").forEach((el) => {
-            el.classList.remove("current-match");
-          });
-          matchElement.classList.add("current-match");
-          (matchElement as HTMLElement).scrollIntoView({
-            behavior: "smooth",
-            block: "center",
-          });
-        } else {
-          // Last resort: use index-based approach
-          const allHighlights = document.querySelectorAll(".search-highlight");
-          if (allHighlights.length > 0) {
-            document.querySelectorAll(".current-match").forEach((el) => {
-              el.classList.remove("current-match");
-            });
-            const index = Math.min(nextIndex, allHighlights.length - 1);
-            allHighlights[index].classList.add("current-match");
-            (allHighlights[index] as HTMLElement).scrollIntoView({
-              behavior: "smooth",
-              block: "center",
-            });
-          }
-        }
-      }
-    }, 50);
+  }
+
+  const imported = importDocument(text, importFormat);
+  if (!imported.ok) return { ok: false, error: imported.error };
+  return {
+    ok: true,
+    file: {
+      name: name.replace(/\.\w+$/, ".json"),
+      filePath: null,
+      content: imported.text,
+      dialect: "json",
+    },
   };
+};
 
-  // Navigate to previous match
-  const goToPrevMatch = () => {
-    if (matchCount === 0) return;
-
-    const prevIndex = (currentMatchIndex - 1 + matchCount) % matchCount;
-    setCurrentMatchIndex(prevIndex);
+// Read and parse a schema file
+const readSchemaFile = async (path: string): Promise<unknown> => {
+  return JSON.parse(await readTextFile(path));
+};
 
-    // Scroll to the match with a small delay to ensure refs are properly registered
-    setTimeout(() => {
-      const matchId = matchPositions[prevIndex];
-      const element = matchRefs.current.get(matchId);
+// Ask for a schema file in the open dialog, starting at defaultPath
+const pickSchemaFile = async (defaultPath?: string) =>
+  (await open({
+    multiple: false,
+    defaultPath,
+    filters: [
+      {
+        name: "JSON Schema",
+        extensions: ["json"],
+      },
+    ],
+  })) as string | null;
 
-      if (element) {
-        // Update current-match class on all highlights
-        document.querySelectorAll(".current-match").forEach((el) => {
-          el.classList.remove("current-match");
-        });
-        element.classList.add("current-match");
+// Schemas from files are stored by path and read again on restore
+const toSchemaSource = (schema: AttachedSchema): SchemaSource =>
+  schema.kind === "file" ? { kind: "file", path: schema.path } : schema;
 
-        element.scrollIntoView({ behavior: "smooth", block: "center" });
-      } else {
-        // Try to find the match in the DOM directly as fallback
-        const matchElement = document.querySelector(
-          `[data-match-id="${matchId}"]`
-        );
-        if (matchElement) {
-          document.querySelectorAll(".current-match").forEach((el) => {
-            el.classList.remove("current-match");
-          });
-          matchElement.classList.add("current-match");
-          (matchElement as HTMLElement).scrollIntoView({
-            behavior: "smooth",
-            block: "center",
-          });
-        } else {
-          // Last resort: use index-based approach
-          const allHighlights = document.querySelectorAll(".search-highlight");
-          if (allHighlights.length > 0) {
-            document.querySelectorAll(".current-match").forEach((el) => {
-              el.classList.remove("current-match");
-            });
-            const index = Math.min(prevIndex, allHighlights.length - 1);
-            allHighlights[index].classList.add("current-match");
-            (allHighlights[index] as HTMLElement).scrollIntoView({
-              behavior: "smooth",
-              block: "center",
-            });
-          }
-        }
-      }
-    }, 50);
-  };
+// Store a tab for the session. Large documents that match their file are
+// kept as a reference to the file instead of inline.
+const toPersistedTab = (tab: JsonTab): PersistedTab => {
+  const dirty = isTabDirty(tab);
+  const byReference =
+    !!tab.filePath && !dirty && tab.jsonInput.length >= INLINE_CONTENT_LIMIT;
 
-  // Escape special chars for regex
-  const escapeRegExp = (string: string): string => {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return {
+    id: tab.id,
+    name: tab.name,
+    filePath: tab.filePath,
+    content: byReference ? null : tab.jsonInput,
+    dirty,
+    isEditing: tab.isEditing,
+    searchTerm: tab.searchTerm,
+    searchOptions: tab.searchOptions,
+    searchMode: tab.searchMode,
+    query: tab.query,
+    readOnly: tab.readOnly,
+    viewState: tab.viewState,
+    schema: tab.schema && toSchemaSource(tab.schema),
+    dialect: tab.dialect,
+    tail: tab.tail,
   };
+};
 
-  const renderValue = (
-    value: unknown,
-    path: string,
-    depth = 0,
-    isLast = true,
-    keyName?: string
-  ): ReactNode => {
-    const isExpanded = expandedNodes.has(path);
-    const indent = "  ".repeat(depth);
-    const comma = isLast ? "" : ",";
-
-    if (value === null) return <span className="json-null">null{comma}</span>;
-    if (typeof value === "boolean")
-      return (
-        <span className="json-boolean">
-          {highlightMatches(String(value), path, "primitive")}
-          {comma}
-        </span>
-      );
-    if (typeof value === "number")
-      return (
-        <span className="json-number">
-          {highlightMatches(String(value), path, "primitive")}
-          {comma}
-        </span>
-      );
-    if (typeof value === "string")
-      return (
-        <span className="json-string">
-          "{highlightMatches(value, path, "string")}"{comma}
-        </span>
-      );
-
-    if (Array.isArray(value)) {
-      if (value.length === 0) return <span>[]{comma}</span>;
-
-      const toggleLabel = keyName ? (
-        <>
-          <span className="json-key">
-            {highlightMatches(`"${keyName}"`, `${path}`, "key")}
-          </span>
-          <span className="json-colon">:</span>
-        </>
-      ) : null;
-
-      return (
-        <div className="json-block">
-          <div className="json-line">
-            <span className="json-toggle" onClick={() => toggleNode(path)}>
-              {isExpanded ? (
-                <span className="toggle-down">▼</span>
-              ) : (
-                <span className="toggle-right">▶</span>
-              )}{" "}
-              {toggleLabel}
-              <span className={toggleLabel ? "brace" : "brace no-key"}>[</span>
-            </span>
-            {!isExpanded && <span>...</span>}
-          </div>
-          {isExpanded && (
-            <div className="json-collapsible">
-              {value.map((item, index) => (
-                <div key={index} className="json-item">
-                  {renderValue(
-                    item,
-                    `${path}.${index}`,
-                    depth + 1,
-                    index === value.length - 1
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
-          {isExpanded && (
-            <div className="json-line">
-              {indent}
-              <span className="brace">]{comma}</span>
-            </div>
-          )}
-          {!isExpanded && (
-            <span className="json-line-end">
-              {indent}
-              <span className="brace">]{comma}</span>
-            </span>
-          )}
-        </div>
-      );
+// Recreate a tab from the session, reading referenced documents and the
+// saved text of modified files back from disk. The document is parsed
+// afterwards; missingFiles lists referenced files that can't be read.
+const restoreTab = async (
+  persisted: PersistedTab
+): Promise<{ tab: JsonTab; missingFiles: string[] }> => {
+  const {
+    content,
+    dirty,
+    schema: schemaSource,
+    dialect = "json",
+    tail = false,
+    ...fields
+  } = persisted;
+  const missingFiles: string[] = [];
+
+  let fileContent: string | null = null;
+  let diskChange: DiskChange | null = null;
+  if (fields.filePath && (content === null || dirty)) {
+    try {
+      fileContent = await readTextFile(fields.filePath);
+    } catch (fileError) {
+      diskChange = { kind: "unavailable", error: String(fileError) };
     }
+  }
 
-    if (typeof value === "object") {
-      const keys = Object.keys(value as object);
-      if (keys.length === 0)
-        return (
-          <span>
-            {"{}"}
-            {comma}
-          </span>
-        );
+  if (fields.filePath && content === null && fileContent === null) {
+    missingFiles.push(fields.filePath);
+  }
 
-      const toggleLabel = keyName ? (
-        <>
-          <span className="json-key">
-            {highlightMatches(`"${keyName}"`, `${path}`, "key")}
-          </span>
-          <span className="json-colon">:</span>
-        </>
-      ) : null;
-
-      return (
-        <div className="json-block">
-          <div className="json-line">
-            <span className="json-toggle" onClick={() => toggleNode(path)}>
-              {isExpanded ? (
-                <span className="toggle-down">▼</span>
-              ) : (
-                <span className="toggle-right">▶</span>
-              )}{" "}
-              {toggleLabel}
-              <span className={toggleLabel ? "brace" : "brace no-key"}>
-                {"{"}
-              </span>
-            </span>
-            {!isExpanded && <span>...</span>}
-          </div>
-          {isExpanded && (
-            <div className="json-collapsible">
-              {keys.map((key, index) => {
-                const nestedValue = (value as Record<string, unknown>)[key];
-                const isNested =
-                  nestedValue !== null && typeof nestedValue === "object";
-
-                if (isNested) {
-                  return (
-                    <div key={key} className="json-item">
-                      {renderValue(
-                        nestedValue,
-                        `${path}.${key}`,
-                        depth + 1,
-                        index === keys.length - 1,
-                        key
-                      )}
-                    </div>
-                  );
-                } else {
-                  return (
-                    <div key={key} className="json-item">
-                      <span className="json-key">
-                        {highlightMatches(`"${key}"`, `${path}`, "key")}
-                      </span>
-                      <span className="json-colon">:</span>{" "}
-                      {renderValue(
-                        nestedValue,
-                        `${path}.${key}`,
-                        depth + 1,
-                        index === keys.length - 1
-                      )}
-                    </div>
-                  );
-                }
-              })}
-            </div>
-          )}
-          {isExpanded && (
-            <div className="json-line">
-              {indent}
-              <span className="brace">
-                {"}"}
-                {comma}
-              </span>
-            </div>
-          )}
-          {!isExpanded && (
-            <span className="json-line-end">
-              {indent}
-              <span className="brace">
-                {"}"}
-                {comma}
-              </span>
-            </span>
-          )}
-        </div>
-      );
+  let schema: AttachedSchema | null = null;
+  if (schemaSource?.kind === "tab") {
+    schema = schemaSource;
+  } else if (schemaSource?.kind === "file") {
+    try {
+      schema = {
+        ...schemaSource,
+        data: await readSchemaFile(schemaSource.path),
+      };
+    } catch {
+      missingFiles.push(schemaSource.path);
     }
-
-    return (
-      <span>
-        {String(value)}
-        {comma}
-      </span>
-    );
-  };
-
-  return (
-    <div ref={containerRef}>
-      <div
-        style={{
-          marginBottom: "8px",
-          display: "flex",
-          alignItems: "center",
-          justifyContent: "space-between",
-        }}
-      >
-        <div>
-          <button onClick={collapseAll} className="collapse-button">
-            Collapse All
-          </button>
-          <button
-            onClick={expandAll}
-            className="expand-button"
-            style={{ marginLeft: "8px" }}
-          >
-            Expand All
-          </button>
-        </div>
-
-        <div style={{ display: "flex", alignItems: "center" }}>
-          {searchTerm.trim() !== "" && (
-            <div className="match-navigation">
-              <button
-                className="nav-button prev-match"
-                onClick={goToPrevMatch}
-                disabled={matchCount === 0}
-                title="Previous match"
-              >
-                ↑
-              </button>
-              <span className="match-count">
-                {matchCount > 0
-                  ? `${currentMatchIndex + 1}/${matchCount}`
-                  : "0"}{" "}
-                matches
-              </span>
-              <button
-                className="nav-button next-match"
-                onClick={goToNextMatch}
-                disabled={matchCount === 0}
-                title="Next match"
-              >
-                ↓
-              </button>
-            </div>
-          )}
-          <button
-            onClick={onSwitchToEdit}
-            className="edit-button"
-            style={{ marginLeft: "8px" }}
-          >
-            Edit
-          </button>
-          <button
-            onClick={onToggleSearch}
-            className="search-button"
-            style={{ marginLeft: "8px" }}
-          >
-            {showSearchBar ? "Hide Search" : "Search"}
-          </button>
-        </div>
-      </div>
-      <div className="collapsible-json">{renderValue(data, "root")}</div>
-      <div
-        className={`top-button ${!showTopButton ? "hidden" : ""}`}
-        onClick={scrollToTop}
-        title="Back to top"
-      >
-        ↑
-      </div>
-    </div>
-  );
+  }
+
+  const jsonInput = content ?? fileContent ?? "";
+  const tab = createTab({
+    ...fields,
+    jsonInput,
+    savedInput: dirty ? (fileContent ?? "") : jsonInput,
+    isEditing: fields.isEditing || !jsonInput.trim(),
+    schema,
+    dialect,
+    tail,
+    diskChange,
+  });
+  return { tab, missingFiles };
 };
 
 // SortableTab component for draggable tabs
@@ -761,7 +415,7 @@ const SortableTab = ({
 }: {
   tab: JsonTab;
   activeTabId: string;
-  closeTab: (tabId: string, e: React.MouseEvent) => void;
+  closeTab: (tabId: string, e?: React.MouseEvent) => Promise<void>;
   onClick: () => void;
   isRenaming: boolean;
   onRename: (newName: string) => void;
@@ -833,11 +487,29 @@ const SortableTab = ({
           maxLength={30}
         />
       ) : (
-        <span className="tab-name" onDoubleClick={onDoubleClick}>
+        <span
+          className="tab-name"
+          onDoubleClick={onDoubleClick}
+          title={tab.filePath ?? undefined}
+        >
           {tab.name}
         </span>
       )}
 
+      {isTabDirty(tab) && (
+        <span className="tab-dirty-marker" title="Unsaved changes">
+          ●
+        </span>
+      )}
+      {tab.diskChange?.kind === "conflict" && (
+        <span
+          className="tab-conflict-marker"
+          title="Changed on disk while there are unsaved changes"
+        >
+          !
+        </span>
+      )}
+
       {/* Close button - exclude from drag listeners */}
       <button className="close-tab" onClick={(e) => closeTab(tab.id, e)}>
         ×
@@ -848,16 +520,7 @@ const SortableTab = ({
 
 function App() {
   // State for tabs and current active tab
-  const [tabs, setTabs] = useState<JsonTab[]>([
-    {
-      id: "tab-" + Date.now(),
-      name: "Untitled",
-      jsonInput: "",
-      parsedJson: null,
-      isEditing: true,
-      searchTerm: "",
-    },
-  ]);
+  const [tabs, setTabs] = useState<JsonTab[]>([createTab()]);
   const [activeTabId, setActiveTabId] = useState<string>(tabs[0].id);
   const [renamingTabId, setRenamingTabId] = useState<string | null>(null);
 
@@ -867,7 +530,79 @@ function App() {
   // Other state
   const [error, setError] = useState<string>("");
   const [showSearchBar, setShowSearchBar] = useState<boolean>(false);
+  const [autoExpandDepth, setAutoExpandDepth] = useState<number>(2);
+  const [parseProgress, setParseProgress] = useState<WorkerProgress | null>(
+    null
+  );
+  // Parses still running per tab, so newer input can abort the stale one
+  const parseControllers = useRef<Map<string, AbortController>>(new Map());
+  const [queryOutcome, setQueryOutcome] = useState<QueryOutcome | null>(null);
+  const queryController = useRef<AbortController | null>(null);
+  // Finding the place to open the other view at, aborted by the next switch
+  const locateController = useRef<AbortController | null>(null);
+  const [validationOutcome, setValidationOutcome] =
+    useState<ValidationOutcome | null>(null);
+  // Text to select in the editor of a tab, e.g. a parse problem that was
+  // picked
+  const [editorSelection, setEditorSelection] = useState<{
+    tabId: string;
+    start: number;
+    end: number;
+  } | null>(null);
+  // Node of a tab's tree to scroll to, e.g. a validation error that was
+  // picked
+  const [revealRequest, setRevealRequest] = useState<{
+    tabId: string;
+    path: PathSegment[];
+  } | null>(null);
+  // Where the editor's cursor and the tree were last, so that switching
+  // between them keeps the place
+  const editorCursor = useRef<{ tabId: string; offset: number } | null>(null);
+  const treePosition = useRef<{
+    tabId: string;
+    path: PathSegment[];
+    focused: boolean;
+  } | null>(null);
+  // Two tabs being compared, shown while the left one is active
+  const [comparison, setComparison] = useState<{
+    leftTabId: string;
+    rightTabId: string;
+  } | null>(null);
+  // Tab whose inferred types are shown instead of the tree
+  const [typesTabId, setTypesTabId] = useState<string | null>(null);
+  // Panes shown side by side, or null for the active tab alone
+  const [splitLayout, setSplitLayout] = useState<SplitLayout | null>(null);
+  // Node picked in the tree to export instead of the whole document
+  const [exportNode, setExportNode] = useState<{
+    tabId: string;
+    path: PathSegment[];
+  } | null>(null);
+  // The initial tab must not overwrite the saved session until it's restored
+  const [sessionRestored, setSessionRestored] = useState<boolean>(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  // Bindings the user changed; the rest keep their defaults
+  const [keyBindings, setKeyBindings] = useState<KeyBindingOverrides>({});
+  const [showCommandPalette, setShowCommandPalette] = useState<boolean>(false);
+  const [showKeyBindings, setShowKeyBindings] = useState<boolean>(false);
+  // Files opened or saved lately, most recent first
+  const [recentFiles, setRecentFiles] = useState<string[]>([]);
+  // Whether files from outside are being dragged over the window
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+
+  // The tab shown next to the active one; when the split names no other tab,
+  // or the active one, it shows the editor and the tree of the active tab
+  const otherTab =
+    splitLayout?.otherTabId && splitLayout.otherTabId !== activeTab.id
+      ? tabs.find((tab) => tab.id === splitLayout.otherTabId)
+      : undefined;
+  const splitsDocument = !!splitLayout && !otherTab && !activeTab.readOnly;
+  // Whether the editor, and the tree or what replaces it, are shown
+  const showsEditor = activeTab.isEditing || splitsDocument;
+  const showsViewer = !activeTab.isEditing || splitsDocument;
+  // Command for the tree, e.g. Expand All run from the palette
+  const [treeCommandRequest, setTreeCommandRequest] = useState<{
+    command: TreeCommand;
+  } | null>(null);
 
   // DnD sensors setup
   const sensors = useSensors(
@@ -883,37 +618,71 @@ function App() {
 
   // Function to add a new tab
   const addNewTab = () => {
-    const newTab: JsonTab = {
-      id: "tab-" + Date.now(),
-      name: "Untitled",
-      jsonInput: "",
-      parsedJson: null,
-      isEditing: true,
-      searchTerm: "",
-    };
+    const newTab = createTab();
     setTabs([...tabs, newTab]);
     setActiveTabId(newTab.id);
   };
 
+  // The tabs as last rendered, for handlers that continue after a prompt
+  const latestTabs = useRef(tabs);
+  useLayoutEffect(() => {
+    latestTabs.current = tabs;
+  });
+
+  // Ask before an action throws away unsaved edits of a tab
+  const confirmDiscardChanges = async (tab: JsonTab) => {
+    if (!isTabDirty(tab)) return true;
+    return ask(`"${tab.name}" has unsaved changes. Discard them?`, {
+      title: "Unsaved Changes",
+      kind: "warning",
+      okLabel: "Discard",
+      cancelLabel: "Cancel",
+    });
+  };
+
   // Function to close a tab
-  const closeTab = (tabId: string, e: React.MouseEvent) => {
-    e.stopPropagation(); // Prevent tab activation when closing
+  const closeTab = async (tabId: string, e?: React.MouseEvent) => {
+    e?.stopPropagation(); // Prevent tab activation when closing
 
     // Don't close the last tab
     if (tabs.length === 1) return;
 
-    const newTabs = tabs.filter((tab) => tab.id !== tabId);
-    setTabs(newTabs);
-
-    // If we closed the active tab, activate another tab
-    if (tabId === activeTabId) {
-      setActiveTabId(newTabs[0].id);
-    }
+    const tab = tabs.find((tab) => tab.id === tabId);
+    if (!tab || !(await confirmDiscardChanges(tab))) return;
+
+    // Tabs may have been opened or changed while the prompt was shown
+    const remainingTabs = latestTabs.current.filter((tab) => tab.id !== tabId);
+    if (remainingTabs.length === 0) return;
+
+    // Documents validated against the closed tab lose their schema
+    setTabs((tabs) =>
+      tabs
+        .filter((tab) => tab.id !== tabId)
+        .map((tab) =>
+          tab.schema?.kind === "tab" && tab.schema.tabId === tabId
+            ? { ...tab, schema: null }
+            : tab
+        )
+    );
+    parseControllers.current.get(tabId)?.abort();
+    releaseWorkerDocument(tabId);
 
-    // If we closed the tab being renamed, cancel renaming
-    if (tabId === renamingTabId) {
-      setRenamingTabId(null);
-    }
+    // Nothing may refer to the closed tab anymore; if it was active,
+    // another tab is activated
+    setActiveTabId((current) =>
+      current === tabId ? remainingTabs[0].id : current
+    );
+    setRenamingTabId((current) => (current === tabId ? null : current));
+    setComparison((current) =>
+      current?.leftTabId === tabId || current?.rightTabId === tabId
+        ? null
+        : current
+    );
+    setTypesTabId((current) => (current === tabId ? null : current));
+    setSplitLayout((current) =>
+      current?.otherTabId === tabId ? { ...current, otherTabId: null } : current
+    );
+    setExportNode((current) => (current?.tabId === tabId ? null : current));
   };
 
   // Start tab rename
@@ -945,145 +714,1142 @@ function App() {
     }
   };
 
-  // Function to update tab data
+  // Function to update tab data. Uses the latest state since parse results
+  // arrive asynchronously, possibly after the user switched tabs.
+  const updateTab = (tabId: string, updates: Partial<JsonTab>) => {
+    setTabs((tabs) =>
+      tabs.map((tab) => (tab.id === tabId ? { ...tab, ...updates } : tab))
+    );
+  };
+
   const updateActiveTab = (updates: Partial<JsonTab>) => {
-    setTabs(
-      tabs.map((tab) => (tab.id === activeTabId ? { ...tab, ...updates } : tab))
+    updateTab(activeTabId, updates);
+  };
+
+  // Change the document of a tab, recording the previous state for undo
+  const changeDocument = (
+    tabId: string,
+    updates: Partial<DocumentSnapshot>,
+    kind: ChangeKind
+  ) => {
+    setTabs((tabs) =>
+      tabs.map((tab) => {
+        if (tab.id !== tabId) return tab;
+        const changed = (
+          Object.keys(updates) as (keyof DocumentSnapshot)[]
+        ).some((key) => updates[key] !== tab[key]);
+        if (!changed) return tab;
+
+        const before = {
+          jsonInput: tab.jsonInput,
+          parsedJson: tab.parsedJson,
+          diagnostics: tab.diagnostics,
+        };
+        return {
+          ...tab,
+          ...updates,
+          history: recordChange(tab.history, before, kind),
+        };
+      })
     );
   };
 
-  // Add keyboard shortcut for search
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Check if in preview mode
-      if (!activeTab.isEditing && activeTab.parsedJson) {
-        // Listen for Cmd+F (Mac) or Ctrl+F (Windows/Linux)
-        if ((e.metaKey || e.ctrlKey) && e.key === "f") {
-          e.preventDefault(); // Prevent browser's default search
-          setShowSearchBar((prevState) => !prevState); // Toggle search bar
-
-          // If we're showing the search bar, focus it after a short delay
-          if (!showSearchBar) {
-            setTimeout(() => {
-              searchInputRef.current?.focus();
-            }, 50);
-          }
-        }
-      }
-    };
+  // Step the active tab back (or forward) through its history
+  const undoActiveTab = (redo = false) => {
+    const tab = activeTab;
+    if (tab.readOnly) return;
 
-    document.addEventListener("keydown", handleKeyDown);
-    return () => {
-      document.removeEventListener("keydown", handleKeyDown);
+    const current = {
+      jsonInput: tab.jsonInput,
+      parsedJson: tab.parsedJson,
+      diagnostics: tab.diagnostics,
     };
-  }, [activeTab.isEditing, activeTab.parsedJson, showSearchBar]);
+    const step = redo
+      ? redoChange(tab.history, current)
+      : undoChange(tab.history, current);
+    if (!step) return;
+
+    // A parse still running for the undone text must not overwrite it
+    parseControllers.current.get(tab.id)?.abort();
+    updateTab(tab.id, { ...step.snapshot, history: step.history });
+    setError("");
+  };
 
-  // Effect to focus search input when search bar appears
-  useEffect(() => {
-    if (searchInputRef.current) {
-      searchInputRef.current.focus();
-    }
-  }, [activeTab.searchTerm]);
+  // Parse text for a tab in the worker, aborting any parse still running for
+  // that tab. Without a dialect it is detected from the text. Resolves to
+  // null when this parse was itself superseded.
+  const parseForTab = async (
+    tabId: string,
+    text: string,
+    dialect: JsonDialect | null
+  ): Promise<ParseResult | null> => {
+    parseControllers.current.get(tabId)?.abort();
+    const controller = new AbortController();
+    parseControllers.current.set(tabId, controller);
 
-  // Function to open a JSON file
-  const openJsonFile = async () => {
     try {
-      // Open a selection dialog for JSON files
-      const selected = await open({
-        multiple: false,
-        filters: [
-          {
-            name: "JSON",
-            extensions: ["json"],
-          },
-        ],
+      return await parseJsonInWorker(tabId, text, dialect, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (text.length >= LARGE_INPUT_LENGTH) setParseProgress(progress);
+        },
+      });
+    } catch (parseError) {
+      if (isAbortError(parseError)) return null;
+      throw parseError;
+    } finally {
+      if (parseControllers.current.get(tabId) === controller) {
+        parseControllers.current.delete(tabId);
+        setParseProgress(null);
+      }
+    }
+  };
+
+  // Load the user's key bindings and recent files at startup
+  useEffect(() => {
+    loadKeyBindings()
+      .then(setKeyBindings)
+      .catch((bindingsError) =>
+        setError(
+          "Could not load key bindings: " + (bindingsError as Error).message
+        )
+      );
+    loadRecentFiles()
+      .then(setRecentFiles)
+      .catch((recentError) =>
+        setError(
+          "Could not load recent files: " + (recentError as Error).message
+        )
+      );
+  }, []);
+
+  const changeKeyBindings = (overrides: KeyBindingOverrides) => {
+    setKeyBindings(overrides);
+    saveKeyBindings(overrides).catch((bindingsError) =>
+      setError(
+        "Could not save key bindings: " + (bindingsError as Error).message
+      )
+    );
+  };
+
+  // Restore the tabs of the previous session at startup
+  useEffect(() => {
+    let cancelled = false;
+
+    const restoreSession = async () => {
+      const session = await loadSession();
+      if (cancelled || !session || session.tabs.length === 0) return;
+
+      const restored = await Promise.all(session.tabs.map(restoreTab));
+      if (cancelled) return;
+
+      const restoredTabs = restored.map(({ tab }) => tab);
+      setTabs(restoredTabs);
+      setActiveTabId(
+        restoredTabs.some((tab) => tab.id === session.activeTabId)
+          ? session.activeTabId
+          : restoredTabs[0].id
+      );
+      setSplitLayout(session.splitLayout ?? null);
+
+      const missingFiles = restored.flatMap(({ missingFiles }) => missingFiles);
+      if (missingFiles.length > 0) {
+        setError("Could not reopen " + missingFiles.join(", "));
+      }
+
+      // Documents that no longer parse are reopened in the editor
+      restoredTabs.forEach((tab) => {
+        if (!tab.jsonInput.trim()) return;
+        parseForTab(tab.id, tab.jsonInput, tab.dialect)
+          .then((result) => {
+            if (!result) return;
+            updateTab(tab.id, {
+              ...getParsedFields(result),
+              ...(result.ok ? {} : { isEditing: true }),
+            });
+          })
+          .catch(() => updateTab(tab.id, { isEditing: true }));
+      });
+    };
+
+    restoreSession()
+      .catch((sessionError) =>
+        setError(
+          "Could not restore the previous session: " +
+            (sessionError as Error).message
+        )
+      )
+      .finally(() => {
+        if (!cancelled) setSessionRestored(true);
       });
 
-      if (selected) {
-        // Read the file content
-        const content = await readTextFile(selected as string);
-
-        // Get file name from path
-        const fileName =
-          (selected as string).split(/[/\\]/).pop() || "Untitled";
-
+    return () => {
+      cancelled = true;
+    };
+    // Only runs once at startup
+  }, []);
+
+  // Save the session shortly after tabs change
+  useEffect(() => {
+    if (!sessionRestored) return;
+
+    const timeout = setTimeout(() => {
+      saveSession({
+        activeTabId,
+        tabs: tabs.map(toPersistedTab),
+        splitLayout,
+      }).catch((sessionError) =>
+        setError(
+          "Could not save the session: " + (sessionError as Error).message
+        )
+      );
+    }, SESSION_SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [tabs, activeTabId, splitLayout, sessionRestored]);
+
+  const handleTreePositionChange = useCallback(
+    (path: PathSegment[], focused: boolean) => {
+      treePosition.current = { tabId: activeTabId, path, focused };
+    },
+    [activeTabId]
+  );
+
+  // Remember the tree view state of the active tab. The callback stays the
+  // same while the tab is shown so the tree doesn't report in a loop.
+  const handleViewStateChange = useCallback(
+    (viewState: TreeViewState) => {
+      setTabs((tabs) =>
+        tabs.map((tab) =>
+          tab.id === activeTabId ? { ...tab, viewState } : tab
+        )
+      );
+    },
+    [activeTabId]
+  );
+
+  // The same for the tab shown in the second pane of the split
+  const otherTabId = otherTab?.id;
+  const handleOtherViewStateChange = useCallback(
+    (viewState: TreeViewState) => {
+      setTabs((tabs) =>
+        tabs.map((tab) => (tab.id === otherTabId ? { ...tab, viewState } : tab))
+      );
+    },
+    [otherTabId]
+  );
+
+  // Effect to focus search input when search bar appears
+  useEffect(() => {
+    if (searchInputRef.current) {
+      searchInputRef.current.focus();
+    }
+  }, [activeTab.searchTerm]);
+
+  // Open documents in tabs of their own, showing the last one. A blank
+  // active tab takes the first document instead of being left empty.
+  const openDocuments = async (files: OpenedFile[]) => {
+    const blankTab =
+      !activeTab.readOnly && !activeTab.filePath && !activeTab.jsonInput.trim()
+        ? activeTab
+        : null;
+    const errors: string[] = [];
+
+    // Documents are parsed before their tabs appear, so that they open in
+    // the tree. Files that don't parse open in the editor with their
+    // problems listed.
+    const opened = await Promise.all(
+      files.map(async (file, index) => {
+        const tabId = index === 0 && blankTab ? blankTab.id : createTab().id;
         try {
-          const parsed = JSON.parse(content);
-
-          // Update active tab with new content
-          updateActiveTab({
-            name: fileName,
-            jsonInput: content,
-            parsedJson: parsed,
-            isEditing: false,
+          const result = await parseForTab(tabId, file.content, file.dialect);
+          if (!result) return null;
+          if (!result.ok && result.diagnostics.length === 0) {
+            errors.push(`${file.name}: ${result.error}`);
+          }
+          return createTab({
+            id: tabId,
+            name: file.name,
+            filePath: file.filePath,
+            jsonInput: file.content,
+            savedInput: file.filePath ? file.content : "",
+            ...getParsedFields(result),
+            isEditing: !result.ok,
           });
-
-          setError("");
         } catch (parseError) {
-          setError("Failed to parse JSON: " + (parseError as Error).message);
+          errors.push(`${file.name}: ${(parseError as Error).message}`);
+          return null;
+        }
+      })
+    );
+
+    const newTabs = opened.filter((tab): tab is JsonTab => tab !== null);
+    if (newTabs.length > 0) {
+      setTabs((tabs) => [
+        ...tabs.map(
+          (tab) => newTabs.find((newTab) => newTab.id === tab.id) ?? tab
+        ),
+        ...newTabs.filter((newTab) => newTab.id !== blankTab?.id),
+      ]);
+      setActiveTabId(newTabs[newTabs.length - 1].id);
+    }
+    return errors;
+  };
+
+  // Remember files that were opened or saved for the recent files list
+  const changeRecentFiles = (paths: string[]) => {
+    setRecentFiles(paths);
+    saveRecentFiles(paths).catch((recentError) =>
+      setError("Could not save recent files: " + (recentError as Error).message)
+    );
+  };
+
+  // Open files from disk, or show the tab a file is already open in
+  const openPaths = async (paths: string[]) => {
+    const files: OpenedFile[] = [];
+    const unreadable: string[] = [];
+    const errors: string[] = [];
+    let openTab: JsonTab | undefined;
+
+    for (const path of paths) {
+      const tab = tabs.find((tab) => tab.filePath === path);
+      if (tab) {
+        openTab = tab;
+        // Opening the file again gives access to it, so it can be read now
+        if (tab.diskChange?.kind === "unavailable") {
+          await handleFileChange(path);
         }
+        continue;
       }
+      try {
+        const opened = toOpenedFile(
+          getFileName(path),
+          path,
+          await readTextFile(path)
+        );
+        if (opened.ok) files.push(opened.file);
+        else errors.push(`${getFileName(path)}: ${opened.error}`);
+      } catch (fileError) {
+        unreadable.push(path);
+        errors.push(`${path}: ${(fileError as Error).message}`);
+      }
+    }
+
+    if (openTab && files.length === 0) setActiveTabId(openTab.id);
+    errors.push(...(await openDocuments(files)));
+    changeRecentFiles(
+      removeRecentFiles(
+        addRecentFiles(
+          recentFiles,
+          paths.filter((path) => !unreadable.includes(path))
+        ),
+        unreadable
+      )
+    );
+    setError(errors.length > 0 ? "Error opening " + errors.join("; ") : "");
+  };
+
+  // Files dropped in the browser can be read but have no path
+  const openBrowserFiles = async (browserFiles: File[]) => {
+    const files: OpenedFile[] = [];
+    const errors: string[] = [];
+    for (const browserFile of browserFiles) {
+      const opened = toOpenedFile(
+        browserFile.name,
+        null,
+        await browserFile.text()
+      );
+      if (opened.ok) files.push(opened.file);
+      else errors.push(`${browserFile.name}: ${opened.error}`);
+    }
+    errors.push(...(await openDocuments(files)));
+    setError(errors.length > 0 ? "Error opening " + errors.join("; ") : "");
+  };
+
+  // Function to open JSON files, each in a tab of its own
+  const openJsonFile = async () => {
+    try {
+      // Open a selection dialog for JSON files and the formats that are
+      // converted to JSON
+      const selected = await open({
+        multiple: true,
+        filters: [
+          {
+            name: "JSON",
+            extensions: DIALECT_EXTENSIONS,
+          },
+          {
+            name: "YAML, TOML or XML",
+            extensions: IMPORT_FORMATS.flatMap(({ extensions }) => extensions),
+          },
+        ],
+      });
+      if (selected) await openPaths(selected);
     } catch (fileError) {
       setError("Error opening file: " + (fileError as Error).message);
     }
   };
 
-  // Function to handle JSON input from textarea
-  const handleJsonInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const input = e.target.value;
+  // Files dropped onto the window open in tabs of their own. The listeners
+  // stay registered and reach the current handlers through a ref.
+  const dropHandlers = useRef({ openPaths, openBrowserFiles });
+  useLayoutEffect(() => {
+    dropHandlers.current = { openPaths, openBrowserFiles };
+  });
+
+  useEffect(() => {
+    // The desktop app gets the paths of dropped files from the webview
+    if (isTauri()) {
+      let cancelled = false;
+      let unlisten: (() => void) | null = null;
+      getCurrentWebview()
+        .onDragDropEvent(({ payload }) => {
+          if (payload.type === "over") return;
+          setIsDraggingFiles(payload.type === "enter");
+          if (payload.type === "drop") {
+            dropHandlers.current.openPaths(payload.paths);
+          }
+        })
+        .then((stop) => {
+          if (cancelled) stop();
+          else unlisten = stop;
+        })
+        // Without the listener files can still be opened from the dialog
+        .catch(() => {});
+      return () => {
+        cancelled = true;
+        unlisten?.();
+      };
+    }
+
+    const hasFiles = (e: DragEvent) =>
+      !!e.dataTransfer?.types.includes("Files");
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDraggingFiles(true);
+    };
+    // Leaving for a child element fires too; only leaving the window counts
+    const handleDragLeave = (e: DragEvent) => {
+      if (e.relatedTarget === null) setIsDraggingFiles(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      dropHandlers.current.openBrowserFiles([...e.dataTransfer!.files]);
+    };
+
+    window.addEventListener("dragover", handleDragOver);
+    window.addEventListener("dragleave", handleDragLeave);
+    window.addEventListener("drop", handleDrop);
+    return () => {
+      window.removeEventListener("dragover", handleDragOver);
+      window.removeEventListener("dragleave", handleDragLeave);
+      window.removeEventListener("drop", handleDrop);
+    };
+  }, []);
+
+  // New records at the end of a followed NDJSON file, added to the records
+  // read before; null when the new text doesn't read as whole records
+  const parseAppendedRecords = async (
+    tabId: string,
+    records: unknown[],
+    appended: string
+  ): Promise<Pick<
+    JsonTab,
+    "parsedJson" | "diagnostics" | "dialect"
+  > | null> => {
+    if (!appended.trim()) {
+      return { parsedJson: records, diagnostics: [], dialect: "ndjson" };
+    }
+    const appendedId = `${tabId}-appended`;
+    try {
+      const result = await parseForTab(appendedId, appended, "ndjson");
+      return result?.ok && Array.isArray(result.value)
+        ? {
+            parsedJson: [...records, ...result.value],
+            diagnostics: [],
+            dialect: "ndjson",
+          }
+        : null;
+    } finally {
+      releaseWorkerDocument(appendedId);
+    }
+  };
+
+  // Replace a tab's document with its file's content, keeping its expanded
+  // nodes, search and scroll position. Edits made while the file was read
+  // turn the reload into a conflict instead.
+  const reloadTab = async (tab: JsonTab, content: string) => {
+    let parsed =
+      tab.tail &&
+      tab.dialect === "ndjson" &&
+      Array.isArray(tab.parsedJson) &&
+      tab.diagnostics.length === 0 &&
+      content.startsWith(tab.jsonInput)
+        ? await parseAppendedRecords(
+            tab.id,
+            tab.parsedJson,
+            content.slice(tab.jsonInput.length)
+          )
+        : null;
+    if (!parsed) {
+      const result = await parseForTab(tab.id, content, tab.dialect);
+      if (!result) return;
+      parsed = getParsedFields(result);
+    }
+
+    const fields = parsed;
+    setTabs((tabs) =>
+      tabs.map((current) => {
+        if (current.id !== tab.id) return current;
+        if (current.jsonInput !== tab.jsonInput) {
+          return { ...current, diskChange: { kind: "conflict", content } };
+        }
+        return {
+          ...current,
+          ...fields,
+          jsonInput: content,
+          savedInput: content,
+          // Followed files change too often for a notice, and a file that
+          // couldn't be read before is simply shown now
+          diskChange:
+            tab.tail || tab.diskChange?.kind === "unavailable"
+              ? null
+              : { kind: "reloaded" },
+          history: recordChange(
+            current.history,
+            {
+              jsonInput: current.jsonInput,
+              parsedJson: current.parsedJson,
+              diagnostics: current.diagnostics,
+            },
+            "reload"
+          ),
+        };
+      })
+    );
+    // A followed file shows its newest record
+    if (tab.tail && Array.isArray(fields.parsedJson)) {
+      revealLastRecord(tab.id, fields.parsedJson);
+    }
+  };
+
+  const revealLastRecord = (tabId: string, records: unknown[]) => {
+    if (records.length > 0) {
+      setRevealRequest({ tabId, path: [records.length - 1] });
+    }
+  };
+
+  // Bring the tabs of a file up to date after it changed on disk. Tabs with
+  // unsaved edits keep them until the user decides.
+  const handleFileChange = async (path: string) => {
+    let content: string | null;
+    try {
+      content = await readTextFile(path);
+    } catch {
+      content = null;
+    }
+
+    for (const tab of tabs.filter((tab) => tab.filePath === path)) {
+      if (content === null) {
+        if (tab.diskChange?.kind !== "removed") {
+          updateTab(tab.id, { diskChange: { kind: "removed" } });
+        }
+      } else if (content === tab.savedInput) {
+        // Written by this app, or touched without changing
+        if (
+          tab.diskChange?.kind === "removed" ||
+          tab.diskChange?.kind === "unwatched"
+        ) {
+          updateTab(tab.id, { diskChange: null });
+        }
+      } else if (content === tab.jsonInput) {
+        updateTab(tab.id, { savedInput: content, diskChange: null });
+      } else if (isTabDirty(tab)) {
+        updateTab(tab.id, { diskChange: { kind: "conflict", content } });
+      } else {
+        await reloadTab(tab, content);
+      }
+    }
+  };
+
+  // A file whose watch keeps failing is flagged unless its tab already
+  // shows a problem with the file
+  const handleWatchError = (path: string, watchError: string) => {
+    setTabs((tabs) =>
+      tabs.map((tab) =>
+        tab.filePath === path &&
+        (!tab.diskChange || tab.diskChange.kind === "reloaded")
+          ? { ...tab, diskChange: { kind: "unwatched", error: watchError } }
+          : tab
+      )
+    );
+  };
+
+  // Follow a tab's NDJSON file as it grows, or stop
+  const toggleTail = () => {
+    updateActiveTab({ tail: !activeTab.tail });
+    if (!activeTab.tail && Array.isArray(activeTab.parsedJson)) {
+      revealLastRecord(activeTab.id, activeTab.parsedJson);
+    }
+  };
+
+  // Watch the files of the tabs in the desktop app. The paths are joined
+  // into one key so that the watches are only set up again when the files
+  // change; the current handler is reached through a ref.
+  const watchedPaths = [
+    ...new Set(tabs.flatMap((tab) => (tab.filePath ? [tab.filePath] : []))),
+  ]
+    .sort()
+    .join("\n");
+  const fileChangeHandler = useRef(handleFileChange);
+  useLayoutEffect(() => {
+    fileChangeHandler.current = handleFileChange;
+  });
+
+  useEffect(() => {
+    if (!isTauri() || !watchedPaths) return;
+
+    const stops = watchedPaths.split("\n").map((path) =>
+      watchFile(
+        path,
+        () =>
+          fileChangeHandler
+            .current(path)
+            .catch((reloadError) =>
+              setError(
+                "Error reloading file: " + (reloadError as Error).message
+              )
+            ),
+        (watchError) => handleWatchError(path, watchError)
+      )
+    );
+    return () => stops.forEach((stop) => stop());
+  }, [watchedPaths]);
+
+  // Write a tab to its file, asking for a location if it has none yet or
+  // for Save As. Resolves to whether the tab was saved.
+  const saveTab = async (tab: JsonTab, saveAs = false) => {
+    try {
+      let filePath = saveAs ? null : tab.filePath;
+      if (!filePath) {
+        const dialect = JSON_DIALECTS.find(
+          ({ value }) => value === tab.dialect
+        )!;
+        const extension = getDialectExtension(tab.dialect);
+        filePath = await save({
+          defaultPath:
+            tab.filePath ??
+            (tab.name.endsWith(`.${extension}`)
+              ? tab.name
+              : `${tab.name}.${extension}`),
+          filters: [
+            {
+              name: dialect.label,
+              extensions: dialect.extensions,
+            },
+          ],
+        });
+        if (!filePath) return false;
+      }
+
+      const content = tab.jsonInput;
+      await writeTextFile(filePath, content);
+
+      updateTab(tab.id, {
+        name: getFileName(filePath),
+        filePath,
+        savedInput: content,
+      });
+      changeRecentFiles(addRecentFiles(recentFiles, [filePath]));
+      setError("");
+      return true;
+    } catch (fileError) {
+      setError("Error saving file: " + (fileError as Error).message);
+      return false;
+    }
+  };
+
+  // Replace a tab's text with JSON converted from another format
+  const applyImportedText = (tabId: string, text: string) => {
+    changeDocument(tabId, { jsonInput: text }, "import");
+    parseForTab(tabId, text, "json")
+      .then((result) => {
+        if (result) updateTab(tabId, getParsedFields(result));
+      })
+      .catch((parseError) => {
+        setError("Invalid JSON: " + (parseError as Error).message);
+      });
+  };
+
+  // Function to handle JSON input from textarea. Text entered into an empty
+  // document, typically pasted, has its dialect detected, and YAML, TOML or
+  // XML is converted to JSON.
+  const handleJsonInput = (input: string, kind: ChangeKind = "typing") => {
+    const tabId = activeTabId;
+    const dialect = activeTab.jsonInput.trim() ? activeTab.dialect : null;
 
     if (input.trim() === "") {
-      updateActiveTab({
+      parseControllers.current.get(tabId)?.abort();
+      changeDocument(
+        tabId,
+        {
+          jsonInput: input,
+          parsedJson: null,
+          diagnostics: [],
+        },
+        kind
+      );
+      setError("");
+      return;
+    }
+
+    changeDocument(
+      tabId,
+      {
         jsonInput: input,
-        parsedJson: null,
+      },
+      kind
+    );
+
+    // Parse in the background; the next keystroke aborts this parse. The
+    // problems of invalid JSON are listed below the editor.
+    parseForTab(tabId, input, dialect)
+      .then((result) => {
+        if (!result) return;
+
+        const importFormat =
+          dialect === null && !result.ok ? detectImportFormat(input) : null;
+        const imported = importFormat && importDocument(input, importFormat);
+        if (imported?.ok) {
+          applyImportedText(tabId, imported.text);
+          setError("");
+          return;
+        }
+
+        updateTab(tabId, getParsedFields(result));
+        setError(
+          result.ok || result.diagnostics.length > 0
+            ? ""
+            : "Invalid JSON: " + result.error
+        );
+      })
+      .catch((parseError) => {
+        setError("Invalid JSON: " + (parseError as Error).message);
       });
-      setError("");
+  };
+
+  // Write the active document, or the node picked in the tree, in another
+  // format to a new file
+  const exportAs = async (format: ExportFormat) => {
+    const tab = activeTab;
+    const path = exportNode?.tabId === tab.id ? exportNode.path : null;
+    const data = path ? getValueAt(tab.parsedJson, path) : tab.parsedJson;
+    if (data === undefined) {
+      setExportNode(null);
+      setError("The node picked for export no longer exists");
+      return;
+    }
+
+    const { label, extensions } = EXPORT_FORMATS.find(
+      ({ value }) => value === format
+    )!;
+    const converted = exportDocument(data, format);
+    if (!converted.ok) {
+      setError(`Can't export as ${label}: ${converted.error}`);
       return;
     }
 
     try {
-      const parsed = JSON.parse(input);
-      updateActiveTab({
-        jsonInput: input,
-        parsedJson: parsed,
+      const baseName = path
+        ? String(path[path.length - 1])
+        : tab.name.replace(/\.[^.]+$/, "");
+      const filePath = await save({
+        defaultPath: `${baseName}.${extensions[0]}`,
+        filters: [{ name: label, extensions }],
       });
+      if (!filePath) return;
+
+      await writeTextFile(filePath, converted.text);
       setError("");
-    } catch (parseError) {
-      updateActiveTab({
-        jsonInput: input,
-      });
-      setError("Invalid JSON: " + (parseError as Error).message);
+    } catch (fileError) {
+      setError("Error exporting file: " + (fileError as Error).message);
     }
   };
 
-  // Function to format JSON for display in the editor
+  // Parse the active tab's text again in another dialect
+  const changeDialect = (dialect: JsonDialect) => {
+    const tabId = activeTabId;
+    const input = activeTab.jsonInput;
+    updateTab(tabId, { dialect });
+    if (!input.trim()) return;
+
+    parseForTab(tabId, input, dialect)
+      .then((result) => {
+        if (!result) return;
+        updateTab(tabId, getParsedFields(result));
+        setError(
+          result.ok || result.diagnostics.length > 0
+            ? ""
+            : "Invalid JSON: " + result.error
+        );
+      })
+      .catch((parseError) => {
+        setError("Invalid JSON: " + (parseError as Error).message);
+      });
+  };
+
+  // Apply the repairs of some of the active tab's problems
+  const repairJson = (diagnostics: ParseDiagnostic[]) => {
+    handleJsonInput(applyRepairs(activeTab.jsonInput, diagnostics), "repair");
+  };
+
+  // Function to format JSON for display in the editor. A recovered document
+  // isn't written back, that would silently drop what couldn't be read, and
+  // neither are other dialects, which would lose their comments and layout.
+  // Returns the formatted text, or null when it is left as it is.
   const formatJson = () => {
-    if (activeTab.parsedJson) {
+    if (
+      activeTab.parsedJson &&
+      activeTab.diagnostics.length === 0 &&
+      activeTab.dialect === "json"
+    ) {
       const formatted = JSON.stringify(activeTab.parsedJson, null, 2);
-      updateActiveTab({
-        jsonInput: formatted,
-      });
+      changeDocument(
+        activeTabId,
+        {
+          jsonInput: formatted,
+        },
+        "format"
+      );
     }
   };
 
-  // Function to handle search input
-  const handleSearchInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    updateActiveTab({
-      searchTerm: e.target.value,
+  // Apply an edit made in the tree view and re-serialize the document
+  const handleTreeEdit = (data: JsonContainer) => {
+    changeDocument(
+      activeTabId,
+      {
+        parsedJson: data,
+        jsonInput: serializeDocument(data, activeTab.dialect),
+        diagnostics: [],
+      },
+      "tree"
+    );
+  };
+
+  // Run the JSONPath or jq query of the active tab in the worker
+  const runQuery = () => {
+    const { id, parsedJson, searchMode, query } = activeTab;
+    if (searchMode === "text" || !parsedJson) return;
+
+    queryController.current?.abort();
+    if (!query.trim()) {
+      setQueryOutcome(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    queryController.current = controller;
+
+    const outcome: QueryOutcome = {
+      tabId: id,
+      data: parsedJson,
+      language: searchMode,
+      query,
+      result: null,
+    };
+    setQueryOutcome(outcome);
+
+    queryJsonInWorker(id, parsedJson, searchMode, query, {
+      signal: controller.signal,
+    })
+      .then((result) => setQueryOutcome({ ...outcome, result }))
+      .catch((queryError) => {
+        if (isAbortError(queryError)) return;
+        setQueryOutcome({
+          ...outcome,
+          result: { ok: false, error: (queryError as Error).message },
+        });
+      });
+  };
+
+  // The query outcome only applies while its tab, document and mode are shown
+  const activeQuery =
+    queryOutcome &&
+    queryOutcome.tabId === activeTab.id &&
+    queryOutcome.data === activeTab.parsedJson &&
+    queryOutcome.language === activeTab.searchMode
+      ? queryOutcome
+      : null;
+
+  const queryStatus: QueryStatus | null = !activeQuery
+    ? null
+    : !activeQuery.result
+      ? { state: "running" }
+      : !activeQuery.result.ok
+        ? { state: "error", error: activeQuery.result.error }
+        : {
+            state: "done",
+            resultCount: activeQuery.result.matches.length,
+            locatedCount: activeQuery.result.matches.filter(
+              (match) => match.path
+            ).length,
+          };
+
+  // Tree paths of the query results that exist in the document
+  const activeQueryResult = activeQuery?.result;
+  const queryPaths = useMemo(() => {
+    if (!activeQueryResult?.ok) return null;
+    return activeQueryResult.matches.flatMap((match) =>
+      match.path ? [toTreePath(match.path)] : []
+    );
+  }, [activeQueryResult]);
+
+  // The node picked for export, while its tab is shown
+  const activeExportPath =
+    exportNode?.tabId === activeTab.id ? exportNode.path : null;
+
+  // Lines the items of an NDJSON document were read from
+  const lineNumbers = useMemo(
+    () =>
+      activeTab.dialect === "ndjson" && showsViewer
+        ? getNdjsonLineNumbers(activeTab.jsonInput)
+        : null,
+    [activeTab.dialect, showsViewer, activeTab.jsonInput]
+  );
+
+  // Open the query results as a new read-only tab
+  const openQueryResultTab = () => {
+    if (!activeQuery?.result?.ok) return;
+
+    // A single jq output is shown as is, anything else as a list of results
+    const values = activeQuery.result.matches.map((match) => match.value);
+    const result =
+      activeQuery.language === "jq" &&
+      values.length === 1 &&
+      isValidJsonObject(values[0])
+        ? values[0]
+        : values;
+
+    const newTab = createTab({
+      name: `Query: ${activeQuery.query}`.slice(0, 30),
+      jsonInput: JSON.stringify(result, null, 2),
+      parsedJson: result,
+      isEditing: false,
+      readOnly: true,
+    });
+    setTabs((tabs) => [...tabs, newTab]);
+    setActiveTabId(newTab.id);
+  };
+
+  // The schema of the active tab, null while a schema tab has no document
+  const attachedSchema = activeTab.schema;
+  const schemaTab =
+    attachedSchema?.kind === "tab"
+      ? tabs.find((tab) => tab.id === attachedSchema.tabId)
+      : undefined;
+  const schemaData =
+    attachedSchema?.kind === "file"
+      ? attachedSchema.data
+      : (schemaTab?.parsedJson ?? null);
+  const schemaName =
+    attachedSchema?.kind === "file"
+      ? getFileName(attachedSchema.path)
+      : (schemaTab?.name ?? "");
+  // A $schema the active document refers to itself
+  const schemaReference =
+    activeTab.parsedJson &&
+    !Array.isArray(activeTab.parsedJson) &&
+    typeof activeTab.parsedJson.$schema === "string"
+      ? activeTab.parsedJson.$schema
+      : null;
+
+  // Validate the active document in the worker whenever it or its schema
+  // changes
+  const validatedTabId = activeTab.id;
+  const validatedData = activeTab.parsedJson;
+  useEffect(() => {
+    if (!validatedData || schemaData === null) return;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      validateJsonInWorker(validatedTabId, validatedData, schemaData, {
+        signal: controller.signal,
+      })
+        .then((result) =>
+          setValidationOutcome({
+            tabId: validatedTabId,
+            schema: schemaData,
+            result,
+          })
+        )
+        .catch((validationError) => {
+          if (isAbortError(validationError)) return;
+          setValidationOutcome({
+            tabId: validatedTabId,
+            schema: schemaData,
+            result: { ok: false, error: (validationError as Error).message },
+          });
+        });
+    }, VALIDATION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [validatedTabId, validatedData, schemaData]);
+
+  // The validation only applies while its tab and schema are shown
+  const activeValidation =
+    validationOutcome &&
+    validationOutcome.tabId === activeTab.id &&
+    validationOutcome.schema === schemaData
+      ? validationOutcome
+      : null;
+
+  // Validation messages by tree path, flagged in the tree
+  const validationResult = activeValidation?.result;
+  const schemaErrors = useMemo(() => {
+    if (!validationResult?.ok) return null;
+    const errors = new Map<string, string[]>();
+    validationResult.errors.forEach((schemaError) => {
+      const path = toTreePath(schemaError.path);
+      errors.set(path, [...(errors.get(path) ?? []), schemaError.message]);
     });
+    return errors;
+  }, [validationResult]);
+
+  // Attach a schema to the active tab from a file, the document's $schema
+  // or another tab ("tab:<id>"), or detach it
+  const attachSchema = async (choice: string) => {
+    const tabId = activeTab.id;
+
+    try {
+      if (choice === "detach") {
+        updateTab(tabId, { schema: null });
+      } else if (choice.startsWith("tab:")) {
+        updateTab(tabId, { schema: { kind: "tab", tabId: choice.slice(4) } });
+      } else {
+        let path: string | null = null;
+        if (choice === "reference" && schemaReference) {
+          const resolved = resolveSchemaReference(
+            schemaReference,
+            activeTab.filePath
+          );
+          if (!resolved.ok) {
+            setError("Can't load $schema: " + resolved.error);
+            return;
+          }
+          path = resolved.path;
+        } else if (choice === "file") {
+          path = await pickSchemaFile();
+        }
+        if (!path) return;
+
+        let data: unknown;
+        try {
+          data = await readSchemaFile(path);
+        } catch (readError) {
+          // Only files the user picked may be read, so the file $schema
+          // points to is confirmed in the open dialog the first time
+          if (choice !== "reference" || readError instanceof SyntaxError) {
+            throw readError;
+          }
+          path = await pickSchemaFile(path);
+          if (!path) return;
+          data = await readSchemaFile(path);
+        }
+        updateTab(tabId, { schema: { kind: "file", path, data } });
+      }
+      setError("");
+    } catch (schemaError) {
+      setError("Error loading schema: " + (schemaError as Error).message);
+    }
+  };
+
+  // Show the node of a validation error in the tree
+  const selectSchemaError = (schemaError: SchemaError) => {
+    if (!showsViewer) toggleView();
+    setRevealRequest({ tabId: activeTab.id, path: schemaError.path });
+  };
+
+  // Invalid regular expressions are reported in the search bar
+  const searchError = activeTab.searchTerm.trim()
+    ? createSearchRegex(activeTab.searchTerm, activeTab.searchOptions).error
+    : null;
+
+  // Clear the search term or query of the active tab
+  const clearSearch = () => {
+    if (activeTab.searchMode === "text") {
+      updateActiveTab({ searchTerm: "" });
+    } else {
+      queryController.current?.abort();
+      setQueryOutcome(null);
+      updateActiveTab({ query: "" });
+    }
   };
 
   // Toggle between JSON viewer and editor
   const toggleView = () => {
+    // Read-only tabs always stay in the viewer
+    if (activeTab.readOnly) return;
+
     // When switching from edit to preview, only proceed if we have valid JSON
     if (activeTab.isEditing && !activeTab.parsedJson) {
       // Don't switch to view mode if no valid JSON
       return;
     }
 
-    // If switching to edit mode, ensure the JSON is formatted
-    if (!activeTab.isEditing) {
-      formatJson();
+    // The other view opens at the same node: the tree at the node under the
+    // editor's cursor, the editor at the tree's focused node (selected) or
+    // its top row. The text is scanned in the worker, and the view moves
+    // there once it is found; if it can't be, the view stays at its top.
+    const tabId = activeTab.id;
+    locateController.current?.abort();
+    const controller = new AbortController();
+    locateController.current = controller;
+    if (activeTab.isEditing) {
+      const cursor = editorCursor.current;
+      setRevealRequest(null);
+      if (cursor?.tabId === tabId) {
+        findPathInWorker(
+          activeTab.jsonInput,
+          activeTab.dialect,
+          cursor.offset,
+          {
+            signal: controller.signal,
+          }
+        )
+          .then((path) => setRevealRequest({ tabId, path }))
+          .catch(() => {});
+      }
+    } else {
+      // The text is shown as it is; reformatting it here would leave the
+      // tab with unsaved changes just from switching views
+      const position = treePosition.current;
+      setEditorSelection(null);
+      if (position?.tabId === tabId && position.path.length > 0) {
+        findRangeInWorker(
+          activeTab.jsonInput,
+          activeTab.dialect,
+          position.path,
+          {
+            signal: controller.signal,
+          }
+        )
+          .then((range) => {
+            if (!range) return;
+            setEditorSelection({
+              tabId,
+              start: range.start,
+              end: position.focused ? range.end : range.start,
+            });
+          })
+          .catch(() => {});
+      }
     }
 
     updateActiveTab({
@@ -1092,16 +1858,68 @@ function App() {
   };
 
   // Function to load new JSON (clear current and show editor)
-  const loadNewJson = () => {
-    updateActiveTab({
-      jsonInput: "",
-      parsedJson: null,
+  const loadNewJson = async () => {
+    const tabId = activeTabId;
+    if (!(await confirmDiscardChanges(activeTab))) return;
+
+    parseControllers.current.get(tabId)?.abort();
+    // The cleared document can be brought back with undo
+    changeDocument(
+      tabId,
+      { jsonInput: "", parsedJson: null, diagnostics: [] },
+      "clear"
+    );
+    updateTab(tabId, {
       isEditing: true,
       searchTerm: "",
+      filePath: null,
+      savedInput: "",
+      viewState: null,
     });
     setError("");
   };
 
+  // The comparison of the active tab, while both documents are available
+  const compareTab = comparison
+    ? tabs.find((tab) => tab.id === comparison.rightTabId)
+    : undefined;
+  const activeComparison =
+    comparison?.leftTabId === activeTab.id &&
+    showsViewer &&
+    activeTab.parsedJson &&
+    compareTab?.parsedJson
+      ? { left: activeTab.parsedJson, right: compareTab.parsedJson }
+      : null;
+
+  // Open a generated JSON Schema as a new tab
+  const openSchemaTab = (text: string, rootName: string) => {
+    const newTab = createTab({
+      name: `${rootName.trim() || "Root"}.schema.json`,
+      jsonInput: text,
+      parsedJson: JSON.parse(text),
+      isEditing: false,
+    });
+    setTabs((tabs) => [...tabs, newTab]);
+    setActiveTabId(newTab.id);
+  };
+
+  // Open part of the active document as a document of its own
+  const openSubtreeTab = (data: JsonContainer, name: string) => {
+    const newTab = createTab({
+      name: `${name}.json`,
+      jsonInput: JSON.stringify(data, null, 2),
+      parsedJson: data,
+      isEditing: false,
+    });
+    setTabs((tabs) => [...tabs, newTab]);
+    setActiveTabId(newTab.id);
+  };
+
+  // Other tabs with a document the active tab can be compared with
+  const compareCandidates = tabs.filter(
+    (tab) => tab.id !== activeTab.id && tab.parsedJson
+  );
+
   // Function to check if an object is a valid JSON object or array
   const isValidJsonObject = (
     data: unknown
@@ -1109,6 +1927,428 @@ function App() {
     return data !== null && typeof data === "object";
   };
 
+  // Show or hide the search bar, focusing it when it appears
+  const toggleSearchBar = () => {
+    setShowSearchBar(!showSearchBar);
+    if (!showSearchBar) {
+      setTimeout(() => {
+        searchInputRef.current?.focus();
+      }, 50);
+    }
+  };
+
+  const switchTab = (offset: 1 | -1) => {
+    const index = tabs.findIndex((tab) => tab.id === activeTabId);
+    setActiveTabId(tabs[(index + offset + tabs.length) % tabs.length].id);
+  };
+
+  // Whether the active tab shows its tree rather than the editor, a diff or
+  // generated types
+  const showsTree =
+    showsViewer &&
+    isValidJsonObject(activeTab.parsedJson) &&
+    !(activeComparison && compareTab) &&
+    typesTabId !== activeTab.id;
+  // Split the content area, at first into the editor and the tree of the
+  // active tab
+  const toggleSplitLayout = () =>
+    setSplitLayout((layout) =>
+      layout ? null : { direction: "horizontal", ratio: 0.5, otherTabId: null }
+    );
+
+  const toggleSplitDirection = () =>
+    setSplitLayout(
+      (layout) =>
+        layout && {
+          ...layout,
+          direction:
+            layout.direction === "horizontal" ? "vertical" : "horizontal",
+        }
+    );
+
+  // Make the tab of the second pane the active one, and the other way round
+  const swapSplitTabs = () => {
+    if (!splitLayout || !otherTab) return;
+    setSplitLayout({ ...splitLayout, otherTabId: activeTab.id });
+    setActiveTabId(otherTab.id);
+  };
+
+  const runTreeCommand = (command: TreeCommand) =>
+    setTreeCommandRequest({ command });
+
+  // What each command does and whether it applies to the active tab now
+  const commandHandlers: Record<
+    CommandId,
+    { enabled: boolean; run: () => void }
+  > = {
+    "palette.show": { enabled: true, run: () => setShowCommandPalette(true) },
+    "keyBindings.show": { enabled: true, run: () => setShowKeyBindings(true) },
+    "file.open": { enabled: true, run: openJsonFile },
+    "file.save": {
+      enabled: !activeTab.readOnly,
+      run: () => saveTab(activeTab),
+    },
+    "file.saveAs": {
+      enabled: !!activeTab.jsonInput,
+      run: () => saveTab(activeTab, true),
+    },
+    "tab.new": { enabled: true, run: addNewTab },
+    "tab.close": { enabled: tabs.length > 1, run: () => closeTab(activeTabId) },
+    "tab.next": { enabled: tabs.length > 1, run: () => switchTab(1) },
+    "tab.previous": { enabled: tabs.length > 1, run: () => switchTab(-1) },
+    "edit.undo": { enabled: !activeTab.readOnly, run: () => undoActiveTab() },
+    "edit.redo": {
+      enabled: !activeTab.readOnly,
+      run: () => undoActiveTab(true),
+    },
+    "edit.format": {
+      enabled:
+        showsEditor &&
+        !!activeTab.parsedJson &&
+        activeTab.diagnostics.length === 0 &&
+        activeTab.dialect === "json",
+      run: formatJson,
+    },
+    "view.toggle": {
+      enabled:
+        !activeTab.readOnly &&
+        !splitsDocument &&
+        (!activeTab.isEditing || !!activeTab.parsedJson),
+      run: toggleView,
+    },
+    "view.split": { enabled: true, run: toggleSplitLayout },
+    "view.splitDirection": {
+      enabled: !!splitLayout,
+      run: toggleSplitDirection,
+    },
+    "tree.collapseAll": {
+      enabled: showsTree,
+      run: () => runTreeCommand("collapseAll"),
+    },
+    "tree.expandAll": {
+      enabled: showsTree,
+      run: () => runTreeCommand("expandAll"),
+    },
+    "tree.goToPath": {
+      enabled: showsTree,
+      run: () => runTreeCommand("goToPath"),
+    },
+    "search.toggle": {
+      enabled: showsViewer && !!activeTab.parsedJson,
+      run: toggleSearchBar,
+    },
+    "search.nextMatch": {
+      enabled: showsTree && activeTab.searchTerm.trim() !== "",
+      run: () => runTreeCommand("nextMatch"),
+    },
+    "search.previousMatch": {
+      enabled: showsTree && activeTab.searchTerm.trim() !== "",
+      run: () => runTreeCommand("previousMatch"),
+    },
+  };
+
+  const bindingMap = useMemo(
+    () => createBindingMap(keyBindings),
+    [keyBindings]
+  );
+
+  // Run the command bound to a key press. Registered on every render so the
+  // handlers see the current tab.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The palette and the shortcut editor handle their own keys, as does
+      // the code editor for e.g. its find panel
+      if (showCommandPalette || showKeyBindings || e.defaultPrevented) return;
+
+      const binding = getEventBinding(e);
+      const command = binding && bindingMap.get(binding);
+      if (!command || !commandHandlers[command.id].enabled) return;
+
+      const target = e.target as HTMLElement;
+      const inInput = target.tagName === "INPUT" || target.tagName === "SELECT";
+      if (command.yieldsToInputs && inInput) return;
+      // Keys that type a character are left to text fields
+      if (
+        !e.ctrlKey &&
+        !e.metaKey &&
+        !e.altKey &&
+        e.key.length === 1 &&
+        (inInput || target.tagName === "TEXTAREA" || target.isContentEditable)
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      commandHandlers[command.id].run();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  });
+
+  // Title of a button with the first key bound to its command
+  const withShortcut = (title: string, id: CommandId) => {
+    const [binding] = getBindings(keyBindings, id);
+    return binding ? `${title} (${formatBinding(binding)})` : title;
+  };
+
+  // The editor of the active tab with the problems found in it
+  const editorView = (
+    <div className="input-view">
+      <JsonEditor
+        key={activeTab.id}
+        value={activeTab.jsonInput}
+        onChange={handleJsonInput}
+        diagnostics={activeTab.diagnostics}
+        selectionRequest={
+          editorSelection?.tabId === activeTab.id ? editorSelection : null
+        }
+        onCursorChange={(offset) => {
+          editorCursor.current = { tabId: activeTab.id, offset };
+        }}
+      />
+      {error && <div className="error-message">{error}</div>}
+      {activeTab.diagnostics.length > 0 && (
+        <ParseDiagnostics
+          diagnostics={activeTab.diagnostics}
+          onSelect={(diagnostic) =>
+            setEditorSelection({
+              tabId: activeTab.id,
+              start: diagnostic.offset,
+              end: diagnostic.offset + diagnostic.length,
+            })
+          }
+          onRepair={repairJson}
+        />
+      )}
+      {activeTab.schema && !splitsDocument && (
+        <ValidationPanel
+          schemaName={schemaName}
+          result={
+            schemaData === null
+              ? {
+                  ok: false,
+                  error: `"${schemaName}" has no valid JSON to use as a schema`,
+                }
+              : (activeValidation?.result ?? null)
+          }
+          onSelectError={selectSchemaError}
+          onDetach={() => attachSchema("detach")}
+        />
+      )}
+    </div>
+  );
+
+  // The tree of the active tab, or a diff or generated types in its place
+  const viewerView =
+    activeComparison && compareTab ? (
+      <DiffView
+        left={{
+          docId: activeTab.id,
+          name: activeTab.name,
+          data: activeComparison.left,
+        }}
+        right={{
+          docId: compareTab.id,
+          name: compareTab.name,
+          data: activeComparison.right,
+        }}
+        onClose={() => setComparison(null)}
+      />
+    ) : typesTabId === activeTab.id && activeTab.parsedJson ? (
+      <TypeGenerator
+        key={activeTab.id}
+        docId={activeTab.id}
+        name={activeTab.name}
+        data={activeTab.parsedJson}
+        onOpenSchema={openSchemaTab}
+        onClose={() => setTypesTabId(null)}
+      />
+    ) : (
+      /* JSON Viewer */
+      activeTab.parsedJson &&
+      isValidJsonObject(activeTab.parsedJson) && (
+        <div className="json-viewer-container">
+          {/* Togglable search bar */}
+          {showSearchBar && (
+            <SearchBar
+              inputRef={searchInputRef}
+              mode={activeTab.searchMode}
+              onModeChange={(searchMode) => updateActiveTab({ searchMode })}
+              searchTerm={activeTab.searchTerm}
+              onSearchTermChange={(searchTerm) =>
+                updateActiveTab({ searchTerm })
+              }
+              searchOptions={activeTab.searchOptions}
+              onSearchOptionsChange={(searchOptions) =>
+                updateActiveTab({ searchOptions })
+              }
+              searchError={searchError}
+              query={activeTab.query}
+              onQueryChange={(query) => updateActiveTab({ query })}
+              onRunQuery={runQuery}
+              queryStatus={queryStatus}
+              onOpenQueryResult={openQueryResultTab}
+              onClear={clearSearch}
+            />
+          )}
+          {error && !splitsDocument && (
+            <div className="error-message">{error}</div>
+          )}
+          {activeTab.diagnostics.length > 0 && (
+            <div className="recovered-notice">
+              <span>
+                The JSON has {activeTab.diagnostics.length} problem
+                {activeTab.diagnostics.length === 1 ? "" : "s"}; showing the
+                part that could be read.
+              </span>
+              {!splitsDocument && (
+                <button onClick={toggleView} className="secondary-button">
+                  Fix in Editor
+                </button>
+              )}
+            </div>
+          )}
+          {activeTab.schema && (
+            <ValidationPanel
+              schemaName={schemaName}
+              result={
+                schemaData === null
+                  ? {
+                      ok: false,
+                      error: `"${schemaName}" has no valid JSON to use as a schema`,
+                    }
+                  : (activeValidation?.result ?? null)
+              }
+              onSelectError={selectSchemaError}
+              onDetach={() => attachSchema("detach")}
+            />
+          )}
+          <div className="json-container">
+            <CollapsibleJSON
+              key={activeTab.id}
+              docId={activeTab.id}
+              data={activeTab.parsedJson}
+              searchTerm={activeTab.searchTerm}
+              searchOptions={activeTab.searchOptions}
+              onSwitchToEdit={
+                activeTab.readOnly || splitsDocument ? undefined : toggleView
+              }
+              onToggleSearch={toggleSearchBar}
+              showSearchBar={showSearchBar}
+              autoExpandDepth={autoExpandDepth}
+              onAutoExpandDepthChange={setAutoExpandDepth}
+              queryPaths={queryPaths}
+              initialViewState={activeTab.viewState}
+              onViewStateChange={handleViewStateChange}
+              onChange={
+                activeTab.readOnly || activeTab.diagnostics.length > 0
+                  ? undefined
+                  : handleTreeEdit
+              }
+              schemaErrors={schemaErrors}
+              revealRequest={
+                revealRequest?.tabId === activeTab.id ? revealRequest : null
+              }
+              onPositionChange={handleTreePositionChange}
+              lineNumbers={lineNumbers}
+              onExportNode={(path) =>
+                setExportNode({ tabId: activeTab.id, path })
+              }
+              onOpenInNewTab={openSubtreeTab}
+              commandRequest={treeCommandRequest}
+              onError={setError}
+            />
+          </div>
+        </div>
+      )
+    );
+
+  const activeView = activeTab.isEditing ? editorView : viewerView;
+  const diskChange = activeTab.diskChange;
+
+  // Picks what the second pane of the split shows
+  const splitHeader = splitLayout && (
+    <div className="split-pane-header">
+      <select
+        className="split-select"
+        value={otherTab?.id ?? ""}
+        onChange={(e) =>
+          setSplitLayout({ ...splitLayout, otherTabId: e.target.value || null })
+        }
+        title="What the second pane shows"
+      >
+        <option value="" disabled={!!activeTab.readOnly}>
+          {activeTab.readOnly ? "Choose a tab…" : "Tree of this tab"}
+        </option>
+        {tabs
+          .filter((tab) => tab.id !== activeTab.id)
+          .map((tab) => (
+            <option key={tab.id} value={tab.id}>
+              Tab: {tab.name}
+            </option>
+          ))}
+      </select>
+      {otherTab && (
+        <button
+          onClick={swapSplitTabs}
+          className="secondary-button"
+          title="Make this the active tab"
+        >
+          Swap
+        </button>
+      )}
+      <button
+        onClick={toggleSplitDirection}
+        className="secondary-button"
+        title={withShortcut(
+          splitLayout.direction === "horizontal"
+            ? "Show the panes one above the other"
+            : "Show the panes side by side",
+          "view.splitDirection"
+        )}
+      >
+        {splitLayout.direction === "horizontal" ? "Stack" : "Side by Side"}
+      </button>
+      <button
+        onClick={() => setSplitLayout(null)}
+        className="secondary-button"
+        title={withShortcut("Show one pane", "view.split")}
+      >
+        Close
+      </button>
+    </div>
+  );
+
+  // The tree of another tab, which can be browsed but not edited
+  const otherTabView =
+    otherTab &&
+    (isValidJsonObject(otherTab.parsedJson) ? (
+      <div className="json-container">
+        <CollapsibleJSON
+          key={otherTab.id}
+          docId={otherTab.id}
+          data={otherTab.parsedJson}
+          searchTerm=""
+          searchOptions={otherTab.searchOptions}
+          showSearchBar={false}
+          autoExpandDepth={autoExpandDepth}
+          onAutoExpandDepthChange={setAutoExpandDepth}
+          queryPaths={null}
+          initialViewState={otherTab.viewState}
+          onViewStateChange={handleOtherViewStateChange}
+          onOpenInNewTab={openSubtreeTab}
+          onError={setError}
+        />
+      </div>
+    ) : (
+      <div className="split-pane-empty">
+        "{otherTab.name}" has no JSON to show.
+      </div>
+    ));
+
   return (
     <div className="container">
       <div className="card">
@@ -1118,7 +2358,9 @@ function App() {
           collisionDetection={closestCenter}
           onDragEnd={handleDragEnd}
         >
-          <div className="tabs-container">
+          <div
+            className={`tabs-container ${isDraggingFiles ? "drop-target" : ""}`}
+          >
             <SortableContext
               items={tabs.map((tab) => tab.id)}
               strategy={horizontalListSortingStrategy}
@@ -1147,111 +2389,358 @@ function App() {
         <div className="json-viewer-header">
           <div className="json-viewer-actions">
             <div className="action-buttons">
-              {activeTab.isEditing && (
+              {parseProgress && (
+                <span className="parse-status">
+                  {parseProgress.phase === "parsing"
+                    ? `Parsing ${(parseProgress.total / 1_000_000).toFixed(
+                        1
+                      )} MB…`
+                    : "Indexing…"}
+                </span>
+              )}
+              <button
+                onClick={openJsonFile}
+                className="open-file-button"
+                title={withShortcut(
+                  "Open files in new tabs; files can also be dropped onto the window",
+                  "file.open"
+                )}
+              >
+                Open JSON File
+              </button>
+              {recentFiles.length > 0 && (
+                <select
+                  className="recent-select"
+                  value=""
+                  onChange={(e) =>
+                    e.target.value === "clear"
+                      ? changeRecentFiles([])
+                      : openPaths([e.target.value])
+                  }
+                  title="Open a file opened or saved lately"
+                >
+                  <option value="" disabled>
+                    Recent…
+                  </option>
+                  {recentFiles.map((path) => (
+                    <option key={path} value={path} title={path}>
+                      {getFileName(path)}
+                    </option>
+                  ))}
+                  <option value="clear">Clear recent files</option>
+                </select>
+              )}
+              {showsEditor && (
+                <button onClick={loadNewJson} className="secondary-button">
+                  New JSON
+                </button>
+              )}
+              {!activeTab.readOnly && (
+                <select
+                  className="dialect-select"
+                  value={activeTab.dialect}
+                  onChange={(e) => changeDialect(e.target.value as JsonDialect)}
+                  title="Syntax of the document"
+                >
+                  {JSON_DIALECTS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {activeTab.dialect === "ndjson" && activeTab.filePath && (
+                <button
+                  onClick={toggleTail}
+                  className="secondary-button"
+                  aria-pressed={activeTab.tail}
+                  title="Add records written to the file as it grows, and scroll to the newest"
+                >
+                  {activeTab.tail ? "Stop Following" : "Follow File"}
+                </button>
+              )}
+              {!activeTab.readOnly && (
+                <button
+                  onClick={() => saveTab(activeTab)}
+                  className="secondary-button"
+                  disabled={!isTabDirty(activeTab) && !!activeTab.filePath}
+                  title={withShortcut("Save", "file.save")}
+                >
+                  Save
+                </button>
+              )}
+              <button
+                onClick={() => saveTab(activeTab, true)}
+                className="secondary-button"
+                disabled={!activeTab.jsonInput}
+                title={withShortcut("Save As", "file.saveAs")}
+              >
+                Save As
+              </button>
+              {!activeTab.readOnly && (
                 <>
-                  <button onClick={openJsonFile} className="open-file-button">
-                    Open JSON File
+                  <button
+                    onClick={() => undoActiveTab()}
+                    className="secondary-button"
+                    disabled={activeTab.history.undoStack.length === 0}
+                    title={withShortcut("Undo", "edit.undo")}
+                  >
+                    Undo
                   </button>
-                  <button onClick={loadNewJson} className="secondary-button">
-                    New JSON
+                  <button
+                    onClick={() => undoActiveTab(true)}
+                    className="secondary-button"
+                    disabled={activeTab.history.redoStack.length === 0}
+                    title={withShortcut("Redo", "edit.redo")}
+                  >
+                    Redo
                   </button>
                 </>
               )}
-              {/* Only show Preview button when in edit mode and valid JSON exists */}
-              {activeTab.isEditing && activeTab.parsedJson && (
-                <button onClick={toggleView} className="secondary-button">
-                  Preview
-                </button>
+              {showsViewer &&
+                activeTab.parsedJson &&
+                compareCandidates.length > 0 && (
+                  <select
+                    className="compare-select"
+                    value=""
+                    onChange={(e) =>
+                      setComparison({
+                        leftTabId: activeTab.id,
+                        rightTabId: e.target.value,
+                      })
+                    }
+                    title="Compare this document with another tab"
+                  >
+                    <option value="" disabled>
+                      Compare with…
+                    </option>
+                    {compareCandidates.map((tab) => (
+                      <option key={tab.id} value={tab.id}>
+                        {tab.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              {showsViewer &&
+                activeTab.parsedJson &&
+                typesTabId !== activeTab.id && (
+                  <button
+                    onClick={() => setTypesTabId(activeTab.id)}
+                    className="secondary-button"
+                    title="Infer a JSON Schema, TypeScript or Zod types"
+                  >
+                    Generate Types
+                  </button>
+                )}
+              {activeTab.parsedJson && (
+                <select
+                  className="schema-select"
+                  value=""
+                  onChange={(e) => attachSchema(e.target.value)}
+                  title="Validate this document against a JSON Schema"
+                >
+                  <option value="" disabled>
+                    {activeTab.schema ? `Schema: ${schemaName}` : "Schema…"}
+                  </option>
+                  <option value="file">From file…</option>
+                  {schemaReference && (
+                    <option value="reference">From $schema</option>
+                  )}
+                  {compareCandidates.map((tab) => (
+                    <option key={tab.id} value={`tab:${tab.id}`}>
+                      Tab: {tab.name}
+                    </option>
+                  ))}
+                  {activeTab.schema && <option value="detach">Detach</option>}
+                </select>
               )}
+              {activeTab.parsedJson && (
+                <select
+                  className="export-select"
+                  value=""
+                  onChange={(e) =>
+                    e.target.value === "document"
+                      ? setExportNode(null)
+                      : exportAs(e.target.value as ExportFormat)
+                  }
+                  title="Write the document in another format; ⇩ on a node in the tree exports just that node"
+                >
+                  <option value="" disabled>
+                    {activeExportPath
+                      ? `Export ${activeExportPath[activeExportPath.length - 1]} as…`
+                      : "Export as…"}
+                  </option>
+                  {EXPORT_FORMATS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                  {activeExportPath && (
+                    <option value="document">Export whole document</option>
+                  )}
+                </select>
+              )}
+              {/* Only show Preview button when in edit mode and valid JSON exists */}
+              {activeTab.isEditing &&
+                !splitsDocument &&
+                activeTab.parsedJson && (
+                  <button onClick={toggleView} className="secondary-button">
+                    Preview
+                  </button>
+                )}
+              <button
+                onClick={toggleSplitLayout}
+                className="secondary-button"
+                title={withShortcut(
+                  splitLayout ? "Show one pane" : "Show two panes side by side",
+                  "view.split"
+                )}
+              >
+                {splitLayout ? "Single View" : "Split View"}
+              </button>
+              <button
+                onClick={() => setShowCommandPalette(true)}
+                className="secondary-button"
+                title={withShortcut("Command Palette", "palette.show")}
+              >
+                Commands
+              </button>
             </div>
           </div>
         </div>
 
-        {/* Content area */}
-        <div className="content-area">
-          {/* Editor View */}
-          {activeTab.isEditing ? (
-            <div className="input-view">
-              <textarea
-                className="json-input"
-                value={activeTab.jsonInput}
-                onChange={handleJsonInput}
-                placeholder="Paste your JSON here..."
-                style={{ flex: 1, height: "100%" }}
-              />
-              {error && <div className="error-message">{error}</div>}
-            </div>
-          ) : (
-            /* JSON Viewer */
-            activeTab.parsedJson &&
-            isValidJsonObject(activeTab.parsedJson) && (
-              <div className="json-viewer-container">
-                {/* Togglable search bar */}
-                {showSearchBar && (
-                  <div
-                    style={{
-                      padding: "10px",
-                      display: "flex",
-                      gap: "10px",
-                      marginBottom: "10px",
-                      background: "#333",
-                      borderRadius: "4px",
-                      animation: "fadeIn 0.2s ease-in-out",
+        {/* The active tab's file changed on disk */}
+        {diskChange && (
+          <div className={`disk-change-notice ${diskChange.kind}`}>
+            {diskChange.kind === "conflict" ? (
+              <>
+                <span>
+                  "{activeTab.name}" changed on disk, and this tab has unsaved
+                  changes.
+                </span>
+                <button
+                  onClick={() =>
+                    reloadTab(activeTab, diskChange.content).catch(
+                      (reloadError) =>
+                        setError(
+                          "Error reloading file: " +
+                            (reloadError as Error).message
+                        )
+                    )
+                  }
+                  className="secondary-button"
+                  title="Replace the changes in this tab with the file"
+                >
+                  Reload from Disk
+                </button>
+                <button
+                  onClick={() =>
+                    updateActiveTab({
+                      savedInput: diskChange.content,
+                      diskChange: null,
+                    })
+                  }
+                  className="secondary-button"
+                  title="Keep the changes in this tab; saving overwrites the file"
+                >
+                  Keep My Changes
+                </button>
+              </>
+            ) : (
+              <>
+                <span>
+                  {diskChange.kind === "reloaded"
+                    ? `"${activeTab.name}" changed on disk and was reloaded.`
+                    : diskChange.kind === "unavailable"
+                      ? `"${activeTab.name}" can't be read (${diskChange.error}). Open the file again to give access to it.`
+                      : diskChange.kind === "unwatched"
+                        ? `Changes to "${activeTab.name}" on disk can't be followed (${diskChange.error}).`
+                        : `"${activeTab.name}" was deleted or moved on disk.`}
+                </span>
+                {diskChange.kind === "unavailable" && (
+                  <button onClick={openJsonFile} className="secondary-button">
+                    Open Again…
+                  </button>
+                )}
+                {diskChange.kind === "reloaded" && (
+                  <button
+                    onClick={() => {
+                      undoActiveTab();
+                      updateActiveTab({ diskChange: null });
                     }}
+                    className="secondary-button"
+                    title="Go back to the text before the reload"
                   >
-                    <input
-                      ref={searchInputRef}
-                      type="text"
-                      placeholder="Search in JSON..."
-                      className="search-input"
-                      value={activeTab.searchTerm}
-                      onChange={handleSearchInput}
-                      style={{
-                        flex: 1,
-                        padding: "8px",
-                        borderRadius: "4px",
-                        border: "1px solid #444",
-                        background: "#1a1a1a",
-                        color: "#fff",
-                      }}
-                    />
-                    <button
-                      onClick={() => updateActiveTab({ searchTerm: "" })}
-                      style={{
-                        padding: "8px",
-                        borderRadius: "4px",
-                        border: "1px solid #f1fa8c",
-                        background: "transparent",
-                        color: "#f1fa8c",
-                        cursor: "pointer",
-                      }}
-                    >
-                      Clear
-                    </button>
-                  </div>
+                    Undo Reload
+                  </button>
                 )}
-                <div className="json-container">
-                  <CollapsibleJSON
-                    data={activeTab.parsedJson}
-                    searchTerm={activeTab.searchTerm}
-                    onSwitchToEdit={toggleView}
-                    onToggleSearch={() => {
-                      setShowSearchBar(!showSearchBar);
-                      // Focus the search input when it appears
-                      if (!showSearchBar) {
-                        setTimeout(() => {
-                          searchInputRef.current?.focus();
-                        }, 50);
-                      }
-                    }}
-                    showSearchBar={showSearchBar}
-                  />
-                </div>
-              </div>
-            )
+                <button
+                  onClick={() => updateActiveTab({ diskChange: null })}
+                  className="secondary-button"
+                >
+                  Dismiss
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Content area */}
+        <div className="content-area">
+          {splitLayout ? (
+            <SplitPane
+              direction={splitLayout.direction}
+              ratio={splitLayout.ratio}
+              onRatioChange={(ratio) =>
+                setSplitLayout((layout) => layout && { ...layout, ratio })
+              }
+              first={splitsDocument ? editorView : activeView}
+              second={
+                <>
+                  {splitHeader}
+                  {splitsDocument ? (
+                    viewerView || (
+                      <div className="split-pane-empty">
+                        The tree appears once the document can be read.
+                      </div>
+                    )
+                  ) : otherTab ? (
+                    otherTabView
+                  ) : (
+                    <div className="split-pane-empty">
+                      Choose a tab to show next to this one.
+                    </div>
+                  )}
+                </>
+              }
+            />
+          ) : (
+            activeView
           )}
         </div>
       </div>
+      {isDraggingFiles && (
+        <div className="drop-overlay">Drop files to open them in new tabs</div>
+      )}
+      {showCommandPalette && (
+        <CommandPalette
+          commands={COMMANDS.filter(
+            (command) =>
+              command.id !== "palette.show" &&
+              commandHandlers[command.id].enabled
+          )}
+          keyBindings={keyBindings}
+          onRun={(id) => commandHandlers[id].run()}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
+      {showKeyBindings && (
+        <KeyBindingsDialog
+          keyBindings={keyBindings}
+          onChange={changeKeyBindings}
+          onClose={() => setShowKeyBindings(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,1257 @@
+import {
+  KeyboardEvent,
+  ReactNode,
+  useCallback,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import ContextMenu, { ContextMenuItem } from "./ContextMenu";
+import InlineEditor from "./InlineEditor";
+import PathBar from "./PathBar";
+import TableView from "./TableView";
+import {
+  addChild,
+  EditableType,
+  EditResult,
+  getEditableType,
+  getValueAt,
+  moveItem,
+  parseEditedValue,
+  removeNode,
+  renameKey,
+  setValue,
+} from "../utils/jsonEdit";
+import {
+  createTreeFilter,
+  flattenTree,
+  getAllPaths,
+  getInitialExpandedPaths,
+  getParentPaths,
+  getPathsToDepth,
+  getRowLabel,
+  isJsonContainer,
+  JsonContainer,
+  remapPaths,
+  TreeRow,
+  TreeViewState,
+} from "../utils/jsonTree";
+import { isAbortError, searchJsonInWorker } from "../utils/jsonWorkerClient";
+import { formatPath, PATH_SYNTAXES, resolvePath } from "../utils/pathFormat";
+import { appendTreePath, PathSegment, toTreePath } from "../utils/query";
+import {
+  createSearchRegex,
+  getMatchId,
+  getMatchRanges,
+  MatchType,
+  SearchMatch,
+  SearchOptions,
+  searchesKeys,
+  searchesValue,
+} from "../utils/search";
+
+// Every row is rendered at a fixed height so the visible window can be
+// computed from the scroll position alone
+const ROW_HEIGHT = 20;
+// Rows rendered above and below the viewport to avoid flicker while scrolling
+const OVERSCAN = 20;
+// Delay before searching so that fast typing doesn't queue up searches
+const SEARCH_DEBOUNCE_MS = 150;
+// Depths offered for the initial expansion of large documents
+const EXPAND_DEPTH_OPTIONS = [1, 2, 3, 4, 5];
+// Delay before reporting expansion and scroll changes to the parent
+const VIEW_STATE_DEBOUNCE_MS = 300;
+
+// The json-container parent is the element that actually scrolls
+const getScrollContainer = (element: HTMLElement | null) =>
+  element?.closest(".json-container") as HTMLElement | null;
+
+// Distance from the top of the scroll container to the first row
+const getListOffset = (
+  list: HTMLElement | null,
+  scrollContainer: HTMLElement
+) => {
+  if (!list) return 0;
+  return (
+    list.getBoundingClientRect().top -
+    scrollContainer.getBoundingClientRect().top +
+    scrollContainer.scrollTop
+  );
+};
+
+// Commands of the tree that can be run from outside, see commandRequest
+export type TreeCommand =
+  "collapseAll" | "expandAll" | "goToPath" | "nextMatch" | "previousMatch";
+
+// CollapsibleJSON component for rendering expandable JSON objects
+const CollapsibleJSON = ({
+  docId,
+  data,
+  searchTerm,
+  searchOptions,
+  onSwitchToEdit,
+  onToggleSearch,
+  showSearchBar,
+  autoExpandDepth,
+  onAutoExpandDepthChange,
+  queryPaths,
+  initialViewState,
+  onViewStateChange,
+  onChange,
+  schemaErrors,
+  revealRequest,
+  lineNumbers,
+  onExportNode,
+  onOpenInNewTab,
+  commandRequest,
+  onPositionChange,
+  onError,
+}: {
+  docId: string;
+  data: JsonContainer;
+  searchTerm: string;
+  searchOptions: SearchOptions;
+  // Omitted for read-only documents, which hides the Edit button
+  onSwitchToEdit?: () => void;
+  // Omitted where the search bar can't be shown, which hides its button
+  onToggleSearch?: () => void;
+  showSearchBar: boolean;
+  autoExpandDepth: number;
+  onAutoExpandDepthChange: (depth: number) => void;
+  // Paths selected by a query; when set only these subtrees are shown
+  queryPaths: string[] | null;
+  // Expansion and scroll position to restore when the tree is mounted
+  initialViewState?: TreeViewState | null;
+  onViewStateChange?: (viewState: TreeViewState) => void;
+  // Omitted for read-only documents, which can't be edited in the tree
+  onChange?: (data: JsonContainer) => void;
+  // Schema validation messages by path, flagged on their rows
+  schemaErrors?: Map<string, string[]> | null;
+  // A node to focus and scroll to from outside the tree, e.g. the node at
+  // the editor's cursor; each new object reveals again
+  revealRequest?: { path: PathSegment[] } | null;
+  // Source line of each item of the root array, for NDJSON documents
+  lineNumbers?: number[] | null;
+  // Picks an object or array to export instead of the whole document
+  onExportNode?: (path: PathSegment[]) => void;
+  // Opens an object or array as a document of its own
+  onOpenInNewTab?: (data: JsonContainer, name: string) => void;
+  // A command to run, e.g. from a key binding; each new object runs again
+  commandRequest?: { command: TreeCommand } | null;
+  // Reports the focused node, or the first one in view while none is
+  // focused, so that the editor can open at the same place
+  onPositionChange?: (path: PathSegment[], focused: boolean) => void;
+  // Reports failures the tree can't show itself, e.g. of copying a value
+  onError: (message: string) => void;
+}) => {
+  // Expand nodes initially, large documents only down to autoExpandDepth,
+  // unless a view state is restored. Later changes to data are edits of the
+  // same document and keep the expansion.
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(
+    () =>
+      new Set(
+        initialViewState?.expandedPaths ??
+          getInitialExpandedPaths(data, autoExpandDepth)
+      )
+  );
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [currentMatchIndex, setCurrentMatchIndex] = useState<number>(0);
+  // Fraction of the document searched so far, null when no search is running
+  const [searchProgress, setSearchProgress] = useState<number | null>(null);
+  // Message of a search that failed, shown in place of the match count
+  const [searchFailure, setSearchFailure] = useState<string | null>(null);
+  const [showTopButton, setShowTopButton] = useState<boolean>(false);
+  const [scrollOffset, setScrollOffset] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(0);
+  const [pendingScrollPath, setPendingScrollPath] = useState<string | null>(
+    null
+  );
+  // The key or value being edited in place
+  const [editing, setEditing] = useState<{
+    path: string;
+    target: "key" | "value";
+  } | null>(null);
+  // Array shown as a table in place of the tree
+  const [tablePath, setTablePath] = useState<PathSegment[] | null>(null);
+  // Row whose context menu is open, and where it was opened
+  const [contextMenu, setContextMenu] = useState<{
+    row: TreeRow;
+    x: number;
+    y: number;
+  } | null>(null);
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+  // Node picked by clicking it or going to it, and the node under the
+  // pointer; the path bar shows the hovered one while there is one
+  const [focusedPath, setFocusedPath] = useState<PathSegment[] | null>(null);
+  const [hoveredPath, setHoveredPath] = useState<PathSegment[] | null>(null);
+  const [pathBarFocusRequest, setPathBarFocusRequest] = useState<object | null>(
+    null
+  );
+  // Prefix of the row ids the tree points screen readers to
+  const treeId = useId();
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const initialScrollTop = useRef(initialViewState?.scrollTop ?? 0);
+  const initialCommandRequest = useRef(commandRequest);
+
+  // Track scroll position and viewport size to window the rows
+  useEffect(() => {
+    const jsonContainer = getScrollContainer(containerRef.current);
+    if (!jsonContainer) return;
+
+    const handleScroll = () => {
+      setShowTopButton(jsonContainer.scrollTop > 200);
+      setScrollOffset(
+        Math.max(
+          0,
+          jsonContainer.scrollTop -
+            getListOffset(listRef.current, jsonContainer)
+        )
+      );
+    };
+
+    const resizeObserver = new ResizeObserver(() => {
+      setViewportHeight(jsonContainer.clientHeight);
+    });
+
+    jsonContainer.addEventListener("scroll", handleScroll);
+    resizeObserver.observe(jsonContainer);
+
+    // Initial check
+    jsonContainer.scrollTop = initialScrollTop.current;
+    setViewportHeight(jsonContainer.clientHeight);
+    handleScroll();
+
+    return () => {
+      jsonContainer.removeEventListener("scroll", handleScroll);
+      resizeObserver.disconnect();
+    };
+  }, []);
+
+  // Report expansion and scroll position once they settle
+  useEffect(() => {
+    if (!onViewStateChange) return;
+
+    const timeout = setTimeout(() => {
+      onViewStateChange({
+        expandedPaths: [...expandedNodes],
+        scrollTop: getScrollContainer(containerRef.current)?.scrollTop ?? 0,
+      });
+    }, VIEW_STATE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [expandedNodes, scrollOffset, onViewStateChange]);
+
+  // Invalid regular expressions leave the search empty; the search bar
+  // reports the error
+  const searchRegex = useMemo(
+    () =>
+      searchTerm.trim()
+        ? createSearchRegex(searchTerm, searchOptions).regex
+        : null,
+    [searchTerm, searchOptions]
+  );
+
+  // The search whose matches were last expanded, so that edits to the same
+  // document only refresh the matches and keep what the user collapsed
+  const expandedSearch = useRef<{ regex: RegExp; docId: string } | null>(null);
+
+  // Find all matches in the worker and expand their ancestors. A new search
+  // term or document cancels the search still running for the previous one.
+  useEffect(() => {
+    const isRefresh =
+      expandedSearch.current?.regex === searchRegex &&
+      expandedSearch.current?.docId === docId;
+    if (!isRefresh) setCurrentMatchIndex(0);
+    setSearchFailure(null);
+
+    if (!searchRegex) {
+      setMatches([]);
+      setSearchProgress(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      setSearchProgress(0);
+      searchJsonInWorker(docId, data, searchTerm, searchOptions, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (progress.phase === "searching") {
+            setSearchProgress(progress.loaded / Math.max(progress.total, 1));
+          }
+        },
+      })
+        .then((result) => {
+          setMatches(result.matches);
+          setSearchProgress(null);
+
+          if (isRefresh) {
+            setCurrentMatchIndex((index) =>
+              Math.min(index, Math.max(result.matches.length - 1, 0))
+            );
+            return;
+          }
+          expandedSearch.current = { regex: searchRegex, docId };
+          if (result.matches.length > 0) {
+            setExpandedNodes((prev) => {
+              const newExpanded = new Set(prev);
+              result.pathsToExpand.forEach((path) => newExpanded.add(path));
+              return newExpanded;
+            });
+          }
+        })
+        .catch((searchError) => {
+          if (!isAbortError(searchError)) {
+            setMatches([]);
+            setSearchProgress(null);
+            setSearchFailure((searchError as Error).message);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchTerm, searchOptions, searchRegex, data, docId]);
+
+  const treeFilter = useMemo(
+    () => (queryPaths ? createTreeFilter(queryPaths) : null),
+    [queryPaths]
+  );
+
+  // Expand the ancestors of query results so they are visible
+  useEffect(() => {
+    if (!treeFilter) return;
+    setExpandedNodes((prev) => new Set([...prev, ...treeFilter.ancestors]));
+  }, [treeFilter]);
+
+  // Collapsed containers with schema errors inside are flagged as well
+  const schemaErrorAncestors = useMemo(
+    () => (schemaErrors ? createTreeFilter([...schemaErrors.keys()]) : null),
+    [schemaErrors]
+  );
+
+  const rows = useMemo(
+    () => flattenTree(data, expandedNodes, treeFilter),
+    [data, expandedNodes, treeFilter]
+  );
+
+  // Index of the first row for each path, used to scroll to a node
+  const rowIndexByPath = useMemo(() => {
+    const indexes = new Map<string, number>();
+    rows.forEach((row, index) => {
+      if (!indexes.has(row.path)) indexes.set(row.path, index);
+    });
+    return indexes;
+  }, [rows]);
+
+  // Row of the focused node, undefined while it is hidden in a collapsed
+  // ancestor
+  const focusedTreePath = focusedPath && toTreePath(focusedPath);
+  const focusedIndex =
+    focusedTreePath === null ? undefined : rowIndexByPath.get(focusedTreePath);
+
+  // Where the editor should open: the focused node, else the top row
+  const topRow =
+    rows[Math.min(Math.floor(scrollOffset / ROW_HEIGHT), rows.length - 1)];
+  const positionPath = focusedPath ?? topRow?.segments;
+  useEffect(() => {
+    if (positionPath) onPositionChange?.(positionPath, focusedPath !== null);
+  }, [positionPath, focusedPath, onPositionChange]);
+
+  // Scroll the row into the middle of the viewport once the rows for a
+  // requested path have been flattened
+  useEffect(() => {
+    if (pendingScrollPath === null) return;
+
+    const rowIndex = rowIndexByPath.get(pendingScrollPath);
+    const jsonContainer = getScrollContainer(containerRef.current);
+    if (rowIndex !== undefined && jsonContainer) {
+      jsonContainer.scrollTo({
+        top:
+          getListOffset(listRef.current, jsonContainer) +
+          rowIndex * ROW_HEIGHT -
+          jsonContainer.clientHeight / 2,
+        behavior: "smooth",
+      });
+    }
+    setPendingScrollPath(null);
+  }, [pendingScrollPath, rowIndexByPath]);
+
+  // Collapse all nodes
+  const collapseAll = () => {
+    setExpandedNodes(new Set());
+  };
+
+  // Expand all nodes
+  const expandAll = () => {
+    setExpandedNodes(new Set(getAllPaths(data)));
+  };
+
+  // Expand the tree down to a depth, which large documents also open with
+  const changeExpandDepth = (depth: number) => {
+    setExpandedNodes(new Set(getPathsToDepth(data, depth)));
+    onAutoExpandDepthChange(depth);
+  };
+
+  // Scroll to top of the component
+  const scrollToTop = () => {
+    const jsonContainer = getScrollContainer(containerRef.current);
+    if (jsonContainer) {
+      jsonContainer.scrollTo({ top: 0, behavior: "smooth" });
+    }
+  };
+
+  const toggleNode = (path: string) => {
+    const newExpanded = new Set(expandedNodes);
+    if (newExpanded.has(path)) {
+      newExpanded.delete(path);
+    } else {
+      newExpanded.add(path);
+    }
+    setExpandedNodes(newExpanded);
+  };
+
+  // Expand or collapse a node and everything inside it
+  const expandSubtree = (row: TreeRow) => {
+    setExpandedNodes(
+      (current) => new Set([...current, ...getAllPaths(row.value, row.path)])
+    );
+  };
+
+  const collapseSubtree = (row: TreeRow) => {
+    setExpandedNodes(
+      (current) =>
+        new Set(
+          [...current].filter(
+            (path) => path !== row.path && !path.startsWith(row.path + "/")
+          )
+        )
+    );
+  };
+
+  const copyText = (text: string) => {
+    navigator.clipboard
+      .writeText(text)
+      .catch((copyError) =>
+        onError("Could not copy: " + (copyError as Error).message)
+      );
+  };
+
+  const getContextMenuItems = (row: TreeRow): ContextMenuItem[] => {
+    const isContainer = isJsonContainer(row.value);
+    const key = row.segments[row.segments.length - 1];
+
+    return [
+      ...PATH_SYNTAXES.map(({ value: syntax, label }) => ({
+        label: `Copy Path as ${label}`,
+        onSelect: () => copyText(formatPath(row.segments, syntax)),
+      })),
+      null,
+      {
+        label: "Copy Value",
+        onSelect: () => copyText(JSON.stringify(row.value)),
+      },
+      {
+        label: "Copy Value as Formatted JSON",
+        onSelect: () => copyText(JSON.stringify(row.value, null, 2)),
+      },
+      {
+        label: "Copy Key",
+        onSelect: () => copyText(String(key)),
+        disabled: key === undefined,
+      },
+      null,
+      {
+        label: "Expand Subtree",
+        onSelect: () => expandSubtree(row),
+        disabled: !isContainer,
+      },
+      {
+        label: "Collapse Subtree",
+        onSelect: () => collapseSubtree(row),
+        disabled: !isContainer,
+      },
+      ...(onOpenInNewTab
+        ? [
+            null,
+            {
+              label: "Open Subtree in New Tab",
+              onSelect: () =>
+                onOpenInNewTab(
+                  row.value as JsonContainer,
+                  key === undefined ? "root" : String(key)
+                ),
+              disabled: !isContainer,
+            },
+          ]
+        : []),
+    ];
+  };
+
+  // Make sure a node is visible, then scroll to it
+  const revealPath = (path: string) => {
+    const parentPaths = getParentPaths(path);
+    if (parentPaths.some((parentPath) => !expandedNodes.has(parentPath))) {
+      setExpandedNodes((prev) => new Set([...prev, ...parentPaths]));
+    }
+    setPendingScrollPath(path);
+  };
+
+  // Show the tree, focus a node and scroll to it
+  const goToNode = (path: PathSegment[]) => {
+    setTablePath(null);
+    setFocusedPath(path);
+    revealPath(toTreePath(path));
+    listRef.current?.focus({ preventScroll: true });
+  };
+
+  // Scroll just enough for a row to be visible below the path bar
+  const scrollRowIntoView = (rowIndex: number) => {
+    const jsonContainer = getScrollContainer(containerRef.current);
+    if (!jsonContainer) return;
+
+    const pathBarHeight =
+      containerRef.current?.querySelector<HTMLElement>(".path-bar")
+        ?.offsetHeight ?? 0;
+    const rowTop =
+      getListOffset(listRef.current, jsonContainer) + rowIndex * ROW_HEIGHT;
+    if (rowTop < jsonContainer.scrollTop + pathBarHeight) {
+      jsonContainer.scrollTop = rowTop - pathBarHeight;
+    } else if (
+      rowTop + ROW_HEIGHT >
+      jsonContainer.scrollTop + jsonContainer.clientHeight
+    ) {
+      jsonContainer.scrollTop =
+        rowTop + ROW_HEIGHT - jsonContainer.clientHeight;
+    }
+  };
+
+  const focusRow = (rowIndex: number) => {
+    setFocusedPath(rows[rowIndex].segments);
+    setHoveredPath(null);
+    scrollRowIntoView(rowIndex);
+  };
+
+  // Index of the next row in a direction that isn't a closing brace
+  const findNodeRow = (from: number, step: -1 | 1) => {
+    for (let i = from; i >= 0 && i < rows.length; i += step) {
+      if (rows[i].kind !== "close") return i;
+    }
+    return -1;
+  };
+
+  // Arrow keys move the focus, Left and Right also collapse and expand,
+  // "*" expands the whole subtree and Enter steps through search matches
+  const handleTreeKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Keys typed into inline editors and row buttons are theirs
+    if (e.target !== e.currentTarget || rows.length === 0) return;
+
+    const row = focusedIndex === undefined ? undefined : rows[focusedIndex];
+    let nextIndex = -1;
+
+    switch (e.key) {
+      case "ArrowDown":
+        nextIndex =
+          focusedIndex === undefined ? 0 : findNodeRow(focusedIndex + 1, 1);
+        break;
+      case "ArrowUp":
+        nextIndex =
+          focusedIndex === undefined ? 0 : findNodeRow(focusedIndex - 1, -1);
+        break;
+      case "Home":
+        nextIndex = 0;
+        break;
+      case "End":
+        nextIndex = findNodeRow(rows.length - 1, -1);
+        break;
+      case "ArrowRight":
+        if (row?.kind === "collapsed") toggleNode(row.path);
+        else if (row?.kind === "open") nextIndex = focusedIndex! + 1;
+        break;
+      case "ArrowLeft":
+        if (row?.kind === "open") {
+          toggleNode(row.path);
+        } else if (row && row.segments.length > 0) {
+          nextIndex =
+            rowIndexByPath.get(toTreePath(row.segments.slice(0, -1))) ?? -1;
+        }
+        break;
+      case "*":
+        if (row && isJsonContainer(row.value)) expandSubtree(row);
+        break;
+      case "Enter":
+        // Without matches Enter opens and closes the focused node
+        if (matchCount > 0) {
+          if (e.shiftKey) goToPrevMatch();
+          else goToNextMatch();
+        } else if (row && row.kind !== "value") {
+          toggleNode(row.path);
+        }
+        break;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    if (nextIndex >= 0) focusRow(nextIndex);
+  };
+
+  const goToPathText = (text: string): string | null => {
+    const result = resolvePath(data, text);
+    if (!result.ok) return result.error;
+    goToNode(result.path);
+    return null;
+  };
+
+  // Run a command given from outside the tree, e.g. by a key binding
+  const runCommand = (command: TreeCommand) => {
+    switch (command) {
+      case "collapseAll":
+        collapseAll();
+        break;
+      case "expandAll":
+        expandAll();
+        break;
+      case "goToPath":
+        setTablePath(null);
+        setPathBarFocusRequest({});
+        break;
+      case "nextMatch":
+        goToNextMatch();
+        break;
+      case "previousMatch":
+        goToPrevMatch();
+        break;
+    }
+  };
+
+  // The handlers of the latest render, for the effects below that only run
+  // on a new request
+  const latestHandlers = useRef({ revealPath, runCommand });
+  useLayoutEffect(() => {
+    latestHandlers.current = { revealPath, runCommand };
+  });
+
+  useEffect(() => {
+    if (!revealRequest) return;
+    setFocusedPath(revealRequest.path);
+    latestHandlers.current.revealPath(toTreePath(revealRequest.path));
+  }, [revealRequest]);
+
+  useEffect(() => {
+    // A request made before this tree was mounted was meant for another one
+    if (!commandRequest || commandRequest === initialCommandRequest.current) {
+      return;
+    }
+    latestHandlers.current.runCommand(commandRequest.command);
+  }, [commandRequest]);
+
+  const matchCount = matches.length;
+  const currentMatchId = matches[currentMatchIndex]?.id;
+
+  // Navigate to next match
+  const goToNextMatch = () => {
+    if (matchCount === 0) return;
+
+    const nextIndex = (currentMatchIndex + 1) % matchCount;
+    setCurrentMatchIndex(nextIndex);
+    revealPath(matches[nextIndex].path);
+  };
+
+  // Navigate to previous match
+  const goToPrevMatch = () => {
+    if (matchCount === 0) return;
+
+    const prevIndex = (currentMatchIndex - 1 + matchCount) % matchCount;
+    setCurrentMatchIndex(prevIndex);
+    revealPath(matches[prevIndex].path);
+  };
+
+  // Hand an edited document to the parent. Expanded paths follow the nodes
+  // the edit moved. Returns the error of a failed edit.
+  const commitEdit = (
+    result: EditResult,
+    moves?: Map<string, string | null>,
+    expandPath?: string
+  ): string | null => {
+    if (!result.ok) return result.error;
+    if (!onChange) return null;
+
+    setExpandedNodes((prev) => {
+      const newExpanded = moves ? remapPaths(prev, moves) : new Set(prev);
+      if (expandPath !== undefined) newExpanded.add(expandPath);
+      return newExpanded;
+    });
+    setEditing(null);
+    onChange(result.data);
+    return null;
+  };
+
+  const commitValue = (row: TreeRow, text: string, type: EditableType) => {
+    const parsed = parseEditedValue(text, type);
+    if (!parsed.ok) return parsed.error;
+    return commitEdit(setValue(data, row.segments, parsed.value));
+  };
+
+  const commitKey = (row: TreeRow, newKey: string) => {
+    const result = renameKey(data, row.segments, newKey);
+    if (!result.ok) return result.error;
+    return commitEdit(result, new Map([[row.path, toTreePath(result.path)]]));
+  };
+
+  const removeRow = (row: TreeRow) => {
+    const result = removeNode(data, row.segments);
+    if (!result.ok) return;
+
+    // Later array items shift up by one
+    const moves = new Map<string, string | null>([[row.path, null]]);
+    const index = row.segments[row.segments.length - 1];
+    const parent = getValueAt(result.data, result.path);
+    if (typeof index === "number" && Array.isArray(parent)) {
+      const parentPath = toTreePath(result.path);
+      for (let i = index + 1; i <= parent.length; i++) {
+        moves.set(
+          appendTreePath(parentPath, i),
+          appendTreePath(parentPath, i - 1)
+        );
+      }
+    }
+    commitEdit(result, moves);
+  };
+
+  const moveRow = (row: TreeRow, offset: -1 | 1) => {
+    const result = moveItem(data, row.segments, offset);
+    if (!result.ok) return;
+
+    const targetPath = toTreePath(result.path);
+    commitEdit(
+      result,
+      new Map([
+        [row.path, targetPath],
+        [targetPath, row.path],
+      ])
+    );
+    setPendingScrollPath(targetPath);
+  };
+
+  // Add a child and start editing it: the key of a new property, the value
+  // of a new array item
+  const addChildTo = (row: TreeRow) => {
+    const result = addChild(data, row.segments);
+    if (!result.ok) return;
+
+    const childPath = toTreePath(result.path);
+    commitEdit(result, undefined, row.path);
+    setEditing({
+      path: childPath,
+      target: Array.isArray(row.value) ? "value" : "key",
+    });
+    setPendingScrollPath(childPath);
+  };
+
+  // Highlight text that matches search term
+  const highlightMatches = (
+    text: string,
+    path: string,
+    type: MatchType
+  ): ReactNode => {
+    if (!searchRegex) return text;
+
+    const ranges = getMatchRanges(text, searchRegex);
+    if (ranges.length === 0) return text;
+
+    const highlightedParts: ReactNode[] = [];
+    let lastIndex = 0;
+
+    ranges.forEach((range, index) => {
+      // Add text before the match
+      if (range.start > lastIndex) {
+        highlightedParts.push(text.substring(lastIndex, range.start));
+      }
+
+      const matchId = getMatchId(path, type, index);
+      highlightedParts.push(
+        <mark
+          key={matchId}
+          className={
+            matchId === currentMatchId
+              ? "search-highlight current-match"
+              : "search-highlight"
+          }
+          data-match-id={matchId}
+        >
+          {text.substring(range.start, range.end)}
+        </mark>
+      );
+
+      lastIndex = range.end;
+    });
+
+    // Add any remaining text after the last match
+    if (lastIndex < text.length) {
+      highlightedParts.push(text.substring(lastIndex));
+    }
+
+    return highlightedParts;
+  };
+
+  const renderKey = (row: TreeRow): ReactNode => {
+    if (row.keyName === undefined) return null;
+
+    if (editing?.path === row.path && editing.target === "key") {
+      return (
+        <>
+          <InlineEditor
+            initialText={row.keyName}
+            onCommit={(text) => commitKey(row, text)}
+            onCancel={() => setEditing(null)}
+          />
+          <span className="json-colon">:</span>{" "}
+        </>
+      );
+    }
+
+    const keyText = searchesKeys(searchOptions)
+      ? highlightMatches(row.keyName, row.path, "key")
+      : row.keyName;
+
+    return (
+      <>
+        <span
+          className="json-key"
+          onDoubleClick={
+            onChange
+              ? () => setEditing({ path: row.path, target: "key" })
+              : undefined
+          }
+        >
+          "{keyText}"
+        </span>
+        <span className="json-colon">:</span>{" "}
+      </>
+    );
+  };
+
+  // Highlight a primitive value if its type is searched
+  const highlightValue = (value: unknown, path: string): ReactNode => {
+    const text = String(value);
+    if (!searchesValue(value, searchOptions)) return text;
+    return highlightMatches(
+      text,
+      path,
+      typeof value === "string" ? "string" : "primitive"
+    );
+  };
+
+  const renderPrimitive = (value: unknown, path: string): ReactNode => {
+    if (value === null)
+      return <span className="json-null">{highlightValue(value, path)}</span>;
+    if (typeof value === "boolean")
+      return (
+        <span className="json-boolean">{highlightValue(value, path)}</span>
+      );
+    if (typeof value === "number")
+      return <span className="json-number">{highlightValue(value, path)}</span>;
+    if (typeof value === "string")
+      return (
+        <span className="json-string">"{highlightValue(value, path)}"</span>
+      );
+    if (Array.isArray(value)) return <span>[]</span>;
+    if (typeof value === "object") return <span>{"{}"}</span>;
+
+    return <span>{String(value)}</span>;
+  };
+
+  // Double-click a primitive to edit it in place
+  const renderValue = (row: TreeRow): ReactNode => {
+    if (isJsonContainer(row.value) || !onChange) {
+      return renderPrimitive(row.value, row.path);
+    }
+
+    if (editing?.path === row.path && editing.target === "value") {
+      return (
+        <InlineEditor
+          initialText={row.value === null ? "" : String(row.value)}
+          initialType={getEditableType(row.value)}
+          onCommit={(text, type) => commitValue(row, text, type)}
+          onCancel={() => setEditing(null)}
+        />
+      );
+    }
+
+    return (
+      <span
+        className="json-editable"
+        onDoubleClick={() => setEditing({ path: row.path, target: "value" })}
+        title="Double-click to edit"
+      >
+        {renderPrimitive(row.value, row.path)}
+      </span>
+    );
+  };
+
+  // Buttons to show arrays as a table and to add, move, remove and export
+  // nodes, shown while hovering a row. Read-only documents can still be
+  // viewed as tables and exported.
+  const renderRowActions = (row: TreeRow): ReactNode => {
+    if (row.kind === "close") return null;
+
+    const isArrayItem =
+      typeof row.segments[row.segments.length - 1] === "number";
+
+    return (
+      <span className="json-row-actions">
+        {Array.isArray(row.value) && row.value.length > 0 && (
+          <button
+            onClick={() => setTablePath(row.segments)}
+            title="Show as table"
+          >
+            ▦
+          </button>
+        )}
+        {onExportNode &&
+          isJsonContainer(row.value) &&
+          row.segments.length > 0 && (
+            <button
+              onClick={() => onExportNode(row.segments)}
+              title="Export this node"
+            >
+              ⇩
+            </button>
+          )}
+        {onChange && isJsonContainer(row.value) && (
+          <button
+            onClick={() => addChildTo(row)}
+            title={Array.isArray(row.value) ? "Add item" : "Add property"}
+          >
+            +
+          </button>
+        )}
+        {onChange && isArrayItem && (
+          <>
+            <button
+              onClick={() => moveRow(row, -1)}
+              disabled={row.segments[row.segments.length - 1] === 0}
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => moveRow(row, 1)}
+              disabled={row.isLast}
+              title="Move down"
+            >
+              ↓
+            </button>
+          </>
+        )}
+        {onChange && row.segments.length > 0 && (
+          <button onClick={() => removeRow(row)} title="Remove">
+            ×
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  // Items of an NDJSON document show the line they were read from
+  const renderLineNumber = (row: TreeRow): ReactNode => {
+    if (!lineNumbers || row.segments.length !== 1 || row.kind === "close") {
+      return null;
+    }
+    const line = lineNumbers[row.segments[0] as number];
+    return (
+      line !== undefined && (
+        <span className="json-line-number" title={`Line ${line}`}>
+          {line}
+        </span>
+      )
+    );
+  };
+
+  const renderRow = (row: TreeRow, rowIndex: number): ReactNode => {
+    const comma = row.isLast ? "" : ",";
+    const [openBrace, closeBrace] = Array.isArray(row.value)
+      ? ["[", "]"]
+      : ["{", "}"];
+    let content: ReactNode;
+
+    if (row.kind === "value") {
+      content = (
+        <>
+          {renderLineNumber(row)}
+          {renderKey(row)}
+          {renderValue(row)}
+          {comma}
+          {renderRowActions(row)}
+        </>
+      );
+    } else if (row.kind === "close") {
+      content = (
+        <span className="brace">
+          {closeBrace}
+          {comma}
+        </span>
+      );
+    } else {
+      const isExpanded = row.kind === "open";
+      const hasKey = row.keyName !== undefined;
+      content = (
+        <>
+          {renderLineNumber(row)}
+          <span className="json-toggle" onClick={() => toggleNode(row.path)}>
+            {isExpanded ? (
+              <span className="toggle-down">▼</span>
+            ) : (
+              <span className="toggle-right">▶</span>
+            )}{" "}
+            {renderKey(row)}
+            <span className={hasKey ? "brace" : "brace no-key"}>
+              {openBrace}
+            </span>
+          </span>
+          {!isExpanded && (
+            <>
+              <span>...</span>
+              <span className="brace">
+                {closeBrace}
+                {comma}
+              </span>
+            </>
+          )}
+          {renderRowActions(row)}
+        </>
+      );
+    }
+
+    const rowErrors =
+      row.kind !== "close" ? schemaErrors?.get(row.path) : undefined;
+    const hasErrorsInside =
+      row.kind === "collapsed" &&
+      !!schemaErrorAncestors?.ancestors.has(row.path);
+    const className = [
+      "json-row",
+      row.kind !== "close" && treeFilter?.paths.has(row.path)
+        ? "query-match"
+        : "",
+      rowErrors ? "schema-error" : "",
+      row.kind !== "close" && row.path === focusedTreePath ? "focused" : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    return (
+      <div
+        key={`${row.kind}:${row.path}`}
+        id={`${treeId}-${rowIndex}`}
+        className={className}
+        style={{ paddingLeft: `${row.depth * 1.5}rem` }}
+        {...(row.kind === "close"
+          ? { role: "none", "aria-hidden": true }
+          : {
+              role: "treeitem",
+              "aria-level": row.depth + 1,
+              "aria-expanded":
+                row.kind === "value" ? undefined : row.kind === "open",
+              "aria-selected": row.path === focusedTreePath,
+              "aria-label": getRowLabel(row),
+            })}
+        onClick={() => setFocusedPath(row.segments)}
+        onMouseEnter={() => setHoveredPath(row.segments)}
+        onContextMenu={(e) => {
+          if (row.kind === "close") return;
+          e.preventDefault();
+          setContextMenu({ row, x: e.clientX, y: e.clientY });
+        }}
+      >
+        {content}
+        {(rowErrors || hasErrorsInside) && (
+          <span
+            className="schema-error-marker"
+            title={rowErrors?.join("\n") ?? "Contains schema errors"}
+          >
+            ⚠
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  // The array picked for the table, while it is still in the document
+  const tableItems = tablePath && getValueAt(data, tablePath);
+
+  // Only the rows inside (or just outside) the viewport are mounted
+  const startIndex = Math.max(
+    0,
+    Math.floor(scrollOffset / ROW_HEIGHT) - OVERSCAN
+  );
+  const endIndex = Math.min(
+    rows.length,
+    Math.ceil((scrollOffset + viewportHeight) / ROW_HEIGHT) + OVERSCAN
+  );
+
+  return (
+    <div ref={containerRef}>
+      <div
+        style={{
+          marginBottom: "8px",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center" }}>
+          <button onClick={collapseAll} className="collapse-button">
+            Collapse All
+          </button>
+          <button
+            onClick={expandAll}
+            className="expand-button"
+            style={{ marginLeft: "8px" }}
+          >
+            Expand All
+          </button>
+          <label
+            className="expand-depth"
+            title="Expand the tree to this depth; large documents also open expanded only this far"
+          >
+            Expand to depth
+            <select
+              value={autoExpandDepth}
+              onChange={(e) => changeExpandDepth(Number(e.target.value))}
+            >
+              {EXPAND_DEPTH_OPTIONS.map((depth) => (
+                <option key={depth} value={depth}>
+                  {depth}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div style={{ display: "flex", alignItems: "center" }}>
+          {searchTerm.trim() !== "" && (
+            <div className="match-navigation">
+              <button
+                className="nav-button prev-match"
+                onClick={goToPrevMatch}
+                disabled={matchCount === 0}
+                title="Previous match"
+              >
+                ↑
+              </button>
+              <span className="match-count" title={searchFailure ?? undefined}>
+                {searchProgress !== null
+                  ? `Searching… ${Math.round(searchProgress * 100)}%`
+                  : searchFailure !== null
+                    ? "Search failed"
+                    : `${
+                        matchCount > 0
+                          ? `${currentMatchIndex + 1}/${matchCount}`
+                          : "0"
+                      } matches`}
+              </span>
+              <button
+                className="nav-button next-match"
+                onClick={goToNextMatch}
+                disabled={matchCount === 0}
+                title="Next match"
+              >
+                ↓
+              </button>
+            </div>
+          )}
+          {onSwitchToEdit && (
+            <button
+              onClick={onSwitchToEdit}
+              className="edit-button"
+              style={{ marginLeft: "8px" }}
+            >
+              Edit
+            </button>
+          )}
+          {onToggleSearch && (
+            <button
+              onClick={onToggleSearch}
+              className="search-button"
+              style={{ marginLeft: "8px" }}
+            >
+              {showSearchBar ? "Hide Search" : "Search"}
+            </button>
+          )}
+        </div>
+      </div>
+      {tablePath && Array.isArray(tableItems) ? (
+        <TableView
+          key={toTreePath(tablePath)}
+          name={formatPath(tablePath, "jsonpath")}
+          items={tableItems}
+          onClose={() => setTablePath(null)}
+        />
+      ) : (
+        <>
+          <PathBar
+            path={hoveredPath ?? focusedPath ?? []}
+            onSelect={goToNode}
+            onGoTo={goToPathText}
+            focusRequest={pathBarFocusRequest}
+          />
+          <div
+            ref={listRef}
+            className="collapsible-json json-virtual-list"
+            style={{ height: rows.length * ROW_HEIGHT }}
+            onMouseLeave={() => setHoveredPath(null)}
+            onKeyDown={handleTreeKeyDown}
+            onFocus={(e) => {
+              // Tabbing into the tree focuses its first node
+              if (e.target === e.currentTarget && !focusedPath && rows.length) {
+                setFocusedPath(rows[0].segments);
+              }
+            }}
+            tabIndex={0}
+            role="tree"
+            aria-label="JSON document"
+            aria-activedescendant={
+              focusedIndex !== undefined &&
+              focusedIndex >= startIndex &&
+              focusedIndex < endIndex
+                ? `${treeId}-${focusedIndex}`
+                : undefined
+            }
+          >
+            <div
+              style={{ transform: `translateY(${startIndex * ROW_HEIGHT}px)` }}
+            >
+              {rows
+                .slice(startIndex, endIndex)
+                .map((row, i) => renderRow(row, startIndex + i))}
+            </div>
+          </div>
+        </>
+      )}
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          items={getContextMenuItems(contextMenu.row)}
+          onClose={closeContextMenu}
+        />
+      )}
+      <div
+        className={`top-button ${!showTopButton ? "hidden" : ""}`}
+        onClick={scrollToTop}
+        title="Back to top"
+      >
+        ↑
+      </div>
+    </div>
+  );
+};
+
+export default CollapsibleJSON;
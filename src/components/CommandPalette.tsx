@@ -0,0 +1,143 @@
+import { ReactNode, useEffect, useId, useMemo, useRef, useState } from "react";
+import {
+  Command,
+  CommandId,
+  formatBinding,
+  fuzzyMatch,
+  getBindings,
+  getCommandTitle,
+  KeyBindingOverrides,
+} from "../utils/commands";
+
+// Bold the characters of a title that the query matched
+const highlightTitle = (title: string, indexes: number[]): ReactNode => {
+  if (indexes.length === 0) return title;
+  const matched = new Set(indexes);
+  return [...title].map((char, index) =>
+    matched.has(index) ? <mark key={index}>{char}</mark> : char
+  );
+};
+
+// CommandPalette component listing the commands that can run right now,
+// filtered by a fuzzy search of their titles
+const CommandPalette = ({
+  commands,
+  keyBindings,
+  onRun,
+  onClose,
+}: {
+  commands: Command[];
+  keyBindings: KeyBindingOverrides;
+  onRun: (id: CommandId) => void;
+  onClose: () => void;
+}) => {
+  const [query, setQuery] = useState<string>("");
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const listId = useId();
+
+  // Best matches first; ties keep the order of the registry
+  const results = useMemo(
+    () =>
+      commands
+        .flatMap((command) => {
+          const match = fuzzyMatch(query, getCommandTitle(command));
+          return match ? [{ command, match }] : [];
+        })
+        .sort((a, b) => b.match.score - a.match.score),
+    [commands, query]
+  );
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(".command-palette-item.selected")
+      ?.scrollIntoView({ block: "nearest" });
+  }, [selectedIndex, results]);
+
+  const run = (id: CommandId) => {
+    onClose();
+    onRun(id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSelectedIndex(
+        (index) => (index + step + results.length) % results.length
+      );
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const selected = results[selectedIndex];
+      if (selected) run(selected.command.id);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="command-overlay" onMouseDown={onClose}>
+      <div
+        className="command-palette"
+        role="dialog"
+        aria-label="Command palette"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <input
+          className="command-palette-input"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelectedIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command"
+          autoFocus
+          role="combobox"
+          aria-expanded="true"
+          aria-controls={listId}
+          aria-activedescendant={
+            results.length > 0 ? `${listId}-${selectedIndex}` : undefined
+          }
+        />
+        <ul
+          ref={listRef}
+          id={listId}
+          className="command-palette-list"
+          role="listbox"
+        >
+          {results.length === 0 && (
+            <li className="command-palette-empty">No matching commands</li>
+          )}
+          {results.map(({ command, match }, index) => {
+            const [binding] = getBindings(keyBindings, command.id);
+            return (
+              <li
+                key={command.id}
+                id={`${listId}-${index}`}
+                className={
+                  index === selectedIndex
+                    ? "command-palette-item selected"
+                    : "command-palette-item"
+                }
+                role="option"
+                aria-selected={index === selectedIndex}
+                onMouseEnter={() => setSelectedIndex(index)}
+                onClick={() => run(command.id)}
+              >
+                <span>
+                  {highlightTitle(getCommandTitle(command), match.indexes)}
+                </span>
+                {binding && <kbd>{formatBinding(binding)}</kbd>}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
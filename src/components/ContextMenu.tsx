@@ -0,0 +1,106 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+
+// An entry of the menu; null draws a separator
+export type ContextMenuItem = {
+  label: string;
+  onSelect: () => void;
+  disabled?: boolean;
+} | null;
+
+// Distance kept between the menu and the edges of the window
+const VIEWPORT_MARGIN = 4;
+
+// ContextMenu component shown at the pointer. It closes when an item is
+// picked, on Escape, and on clicks or scrolling elsewhere.
+const ContextMenu = ({
+  x,
+  y,
+  items,
+  onClose,
+}: {
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ left: x, top: y });
+
+  // Keep the menu inside the window
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+    const { width, height } = menu.getBoundingClientRect();
+    setPosition({
+      left: Math.max(
+        VIEWPORT_MARGIN,
+        Math.min(x, window.innerWidth - width - VIEWPORT_MARGIN)
+      ),
+      top: Math.max(
+        VIEWPORT_MARGIN,
+        Math.min(y, window.innerHeight - height - VIEWPORT_MARGIN)
+      ),
+    });
+    menu.querySelector<HTMLButtonElement>("button:not(:disabled)")?.focus();
+  }, [x, y]);
+
+  useEffect(() => {
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    const handleScroll = (e: Event) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+
+    document.addEventListener("mousedown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("scroll", handleScroll, true);
+    window.addEventListener("blur", onClose);
+    window.addEventListener("resize", onClose);
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("scroll", handleScroll, true);
+      window.removeEventListener("blur", onClose);
+      window.removeEventListener("resize", onClose);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="context-menu"
+      role="menu"
+      style={position}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {items.map((item, index) =>
+        item ? (
+          <button
+            key={index}
+            className="context-menu-item"
+            role="menuitem"
+            disabled={item.disabled}
+            onClick={() => {
+              onClose();
+              item.onSelect();
+            }}
+          >
+            {item.label}
+          </button>
+        ) : (
+          <div
+            key={index}
+            className="context-menu-separator"
+            role="separator"
+          />
+        )
+      )}
+    </div>
+  );
+};
+
+export default ContextMenu;
@@ -0,0 +1,586 @@
+import { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { getValueAt } from "../utils/jsonEdit";
+import { DiffNode, DiffOptions, DiffResult } from "../utils/jsonDiff";
+import { isJsonContainer, JsonContainer } from "../utils/jsonTree";
+import { diffJsonInWorker, isAbortError } from "../utils/jsonWorkerClient";
+import { PathSegment } from "../utils/query";
+
+// A document shown on one side of the comparison
+export type DiffSide = {
+  docId: string;
+  name: string;
+  data: JsonContainer;
+};
+
+type DiffLayout = "unified" | "split";
+
+// Lines of the merged document. Expanded containers produce a "line" and a
+// "close" row, runs of unchanged siblings can be folded into a "run" row.
+type DiffRow =
+  | {
+      type: "line";
+      id: string;
+      depth: number;
+      node: DiffNode;
+      expanded: boolean;
+    }
+  | { type: "close"; id: string; depth: number; node: DiffNode }
+  | { type: "run"; id: string; depth: number; count: number };
+
+// Runs of more unchanged siblings than this are folded into one row
+const UNCHANGED_RUN_LIMIT = 5;
+// Longest text shown for a single value
+const PREVIEW_LENGTH = 80;
+
+const getNodeId = (node: DiffNode) =>
+  JSON.stringify([node.leftPath, node.rightPath]);
+
+const getLabel = (path: PathSegment[] | null) =>
+  path && path.length > 0 ? path[path.length - 1] : null;
+
+const truncate = (text: string) =>
+  text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH) + "…" : text;
+
+// Values of a node on both sides. Unchanged nodes show the left value on
+// both sides since array items may sit at other indexes on the right.
+const getValues = (
+  node: DiffNode,
+  left: JsonContainer,
+  right: JsonContainer
+): { leftValue: unknown; rightValue: unknown } => {
+  const leftValue = node.leftPath ? getValueAt(left, node.leftPath) : undefined;
+  if (node.status === "unchanged") return { leftValue, rightValue: leftValue };
+  const rightValue = node.rightPath
+    ? getValueAt(right, node.rightPath)
+    : undefined;
+  return { leftValue, rightValue };
+};
+
+const isExpandable = (node: DiffNode, value: unknown) =>
+  node.status !== "changed" &&
+  isJsonContainer(value) &&
+  Object.keys(value).length > 0;
+
+// Children of a node. Only modified containers have compared children, the
+// contents of other containers share the status of their container.
+const getChildren = (
+  node: DiffNode,
+  left: JsonContainer,
+  right: JsonContainer
+): DiffNode[] => {
+  if (node.children) return node.children;
+
+  const { leftValue, rightValue } = getValues(node, left, right);
+  const value = node.leftPath ? leftValue : rightValue;
+  if (!isJsonContainer(value)) return [];
+
+  const keys: PathSegment[] = Array.isArray(value)
+    ? value.map((_, index) => index)
+    : Object.keys(value);
+  return keys.map((key) => ({
+    status: node.status,
+    leftPath: node.leftPath && [...node.leftPath, key],
+    rightPath:
+      node.status === "unchanged"
+        ? node.leftPath && [...node.leftPath, key]
+        : node.rightPath && [...node.rightPath, key],
+  }));
+};
+
+// Flatten the visible part of the merged document. Modified containers are
+// open unless toggled, everything else is closed unless toggled.
+const flattenDiff = (
+  root: DiffNode,
+  left: JsonContainer,
+  right: JsonContainer,
+  toggled: Set<string>
+): DiffRow[] => {
+  const rows: DiffRow[] = [];
+
+  const visit = (node: DiffNode, depth: number) => {
+    const id = getNodeId(node);
+    const { leftValue, rightValue } = getValues(node, left, right);
+    const expanded =
+      isExpandable(node, node.leftPath ? leftValue : rightValue) &&
+      (node.status === "modified") !== toggled.has(id);
+
+    rows.push({ type: "line", id, depth, node, expanded });
+    if (!expanded) return;
+
+    const children = getChildren(node, left, right);
+    let index = 0;
+    while (index < children.length) {
+      let runEnd = index;
+      while (
+        runEnd < children.length &&
+        children[runEnd].status === "unchanged"
+      ) {
+        runEnd++;
+      }
+
+      const runId = `${id}:run:${index}`;
+      if (
+        node.status === "modified" &&
+        runEnd - index > UNCHANGED_RUN_LIMIT &&
+        !toggled.has(runId)
+      ) {
+        rows.push({
+          type: "run",
+          id: runId,
+          depth: depth + 1,
+          count: runEnd - index,
+        });
+        index = runEnd;
+        continue;
+      }
+
+      for (const end = Math.max(runEnd, index + 1); index < end; index++) {
+        visit(children[index], depth + 1);
+      }
+    }
+
+    rows.push({ type: "close", id: `${id}:close`, depth, node });
+  };
+
+  visit(root, 0);
+  return rows;
+};
+
+// Every added, removed or changed node with the containers around it
+const collectDifferences = (
+  node: DiffNode,
+  ancestors: string[] = [],
+  differences: { id: string; ancestors: string[] }[] = []
+) => {
+  const id = getNodeId(node);
+  if (node.status !== "unchanged" && node.status !== "modified") {
+    differences.push({ id, ancestors });
+  }
+  node.children?.forEach((child) =>
+    collectDifferences(child, [...ancestors, id], differences)
+  );
+  return differences;
+};
+
+const renderValue = (value: unknown, expanded: boolean): ReactNode => {
+  if (Array.isArray(value)) {
+    if (expanded) return <span className="brace">[</span>;
+    return (
+      <span className="brace">
+        {value.length === 0 ? "[]" : `[… ${value.length} items]`}
+      </span>
+    );
+  }
+  if (isJsonContainer(value)) {
+    const size = Object.keys(value).length;
+    if (expanded) return <span className="brace">{"{"}</span>;
+    return (
+      <span className="brace">{size === 0 ? "{}" : `{… ${size} keys}`}</span>
+    );
+  }
+  if (value === null) return <span className="json-null">null</span>;
+  if (typeof value === "boolean")
+    return <span className="json-boolean">{String(value)}</span>;
+  if (typeof value === "number")
+    return <span className="json-number">{value}</span>;
+  return <span className="json-string">{truncate(JSON.stringify(value))}</span>;
+};
+
+const renderLabel = (label: PathSegment | null): ReactNode => {
+  if (label === null) return null;
+  if (typeof label === "number") {
+    return <span className="diff-index">[{label}] </span>;
+  }
+  return (
+    <>
+      <span className="json-key">"{label}"</span>
+      <span className="json-colon">:</span>{" "}
+    </>
+  );
+};
+
+// Gutter markers of added and removed lines
+const DIFF_MARKERS: Record<string, string> = {
+  added: "+",
+  removed: "-",
+};
+
+// DiffView component for a structural comparison of two documents
+const DiffView = ({
+  left,
+  right,
+  onClose,
+}: {
+  left: DiffSide;
+  right: DiffSide;
+  onClose: () => void;
+}) => {
+  const [layout, setLayout] = useState<DiffLayout>("unified");
+  const [ignoreArrayOrder, setIgnoreArrayOrder] = useState<boolean>(false);
+  const [ignoredKeysText, setIgnoredKeysText] = useState<string>("");
+  const [result, setResult] = useState<DiffResult | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  // Containers opened or closed by the user, and folded runs they expanded
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+  const [currentIndex, setCurrentIndex] = useState<number>(-1);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const options: DiffOptions = useMemo(
+    () => ({
+      ignoreArrayOrder,
+      ignoredKeys: ignoredKeysText
+        .split(",")
+        .map((key) => key.trim())
+        .filter(Boolean),
+    }),
+    [ignoreArrayOrder, ignoredKeysText]
+  );
+
+  // Compare in the worker; changed documents or options cancel the last run
+  useEffect(() => {
+    const controller = new AbortController();
+    setResult(null);
+    setDiffError(null);
+
+    diffJsonInWorker(
+      { docId: left.docId, data: left.data },
+      { docId: right.docId, data: right.data },
+      options,
+      { signal: controller.signal }
+    )
+      .then((diffResult) => {
+        setResult(diffResult);
+        setCurrentIndex(-1);
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) setDiffError((error as Error).message);
+      });
+
+    return () => controller.abort();
+  }, [left.docId, left.data, right.docId, right.data, options]);
+
+  const rows = useMemo(
+    () =>
+      result ? flattenDiff(result.root, left.data, right.data, toggled) : [],
+    [result, left.data, right.data, toggled]
+  );
+
+  const differences = useMemo(
+    () => (result ? collectDifferences(result.root) : []),
+    [result]
+  );
+  const currentId = differences[currentIndex]?.id;
+
+  // Bring the current difference into view once its row is rendered
+  useEffect(() => {
+    if (!currentId) return;
+    containerRef.current
+      ?.querySelector(`[data-diff-id="${CSS.escape(currentId)}"]`)
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [currentId, rows]);
+
+  const toggle = (id: string) => {
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Step to the next (1) or previous (-1) difference, opening the containers
+  // around it
+  const goToDifference = (offset: 1 | -1) => {
+    if (differences.length === 0) return;
+    const index =
+      (currentIndex + offset + differences.length) % differences.length;
+    const { ancestors } = differences[index];
+    setToggled((prev) => {
+      const next = new Set(prev);
+      ancestors.forEach((id) => next.delete(id));
+      return next;
+    });
+    setCurrentIndex(index);
+  };
+
+  const renderSide = (
+    path: PathSegment[] | null,
+    value: unknown,
+    expanded: boolean
+  ): ReactNode => (
+    <>
+      {renderLabel(getLabel(path))}
+      {renderValue(value, expanded)}
+    </>
+  );
+
+  const renderLine = (
+    key: string,
+    depth: number,
+    className: string,
+    marker: string,
+    content: ReactNode,
+    onClick?: () => void,
+    diffId?: string
+  ) => (
+    <div
+      key={key}
+      className={`diff-line ${className} ${
+        diffId && diffId === currentId ? "diff-current" : ""
+      }`}
+      data-diff-id={diffId}
+      onClick={onClick}
+      style={{ cursor: onClick ? "pointer" : undefined }}
+    >
+      <span className="diff-marker">{marker}</span>
+      <span style={{ paddingLeft: `${depth * 1.5}rem` }}>{content}</span>
+    </div>
+  );
+
+  const renderToggle = (row: Extract<DiffRow, { type: "line" }>) => {
+    const { leftValue, rightValue } = getValues(
+      row.node,
+      left.data,
+      right.data
+    );
+    const value = row.node.leftPath ? leftValue : rightValue;
+    if (!isExpandable(row.node, value)) return null;
+    return <span className="json-toggle">{row.expanded ? "▼ " : "▶ "}</span>;
+  };
+
+  const renderUnifiedRow = (row: DiffRow): ReactNode => {
+    if (row.type === "run") {
+      return renderLine(
+        row.id,
+        row.depth,
+        "diff-run",
+        "",
+        `⋯ ${row.count} unchanged`,
+        () => toggle(row.id)
+      );
+    }
+
+    const { node } = row;
+    const { leftValue, rightValue } = getValues(node, left.data, right.data);
+
+    if (row.type === "close") {
+      return renderLine(
+        row.id,
+        row.depth,
+        `diff-${node.status}`,
+        DIFF_MARKERS[node.status] ?? "",
+        <span className="brace">
+          {Array.isArray(leftValue ?? rightValue) ? "]" : "}"}
+        </span>
+      );
+    }
+
+    const nodeId = getNodeId(node);
+    const onClick = () => toggle(nodeId);
+
+    if (node.status === "changed") {
+      return (
+        <div key={row.id}>
+          {renderLine(
+            `${row.id}:old`,
+            row.depth,
+            "diff-removed",
+            "-",
+            renderSide(node.leftPath, leftValue, false),
+            undefined,
+            nodeId
+          )}
+          {renderLine(
+            `${row.id}:new`,
+            row.depth,
+            "diff-added",
+            "+",
+            renderSide(node.rightPath, rightValue, false)
+          )}
+        </div>
+      );
+    }
+
+    const [path, value] =
+      node.status === "added"
+        ? [node.rightPath, rightValue]
+        : [node.leftPath, leftValue];
+    return renderLine(
+      row.id,
+      row.depth,
+      `diff-${node.status}`,
+      DIFF_MARKERS[node.status] ?? "",
+      <>
+        {renderToggle(row)}
+        {renderSide(path, value, row.expanded)}
+      </>,
+      isExpandable(node, value) ? onClick : undefined,
+      nodeId
+    );
+  };
+
+  const renderSplitRow = (row: DiffRow): ReactNode => {
+    if (row.type === "run") {
+      return (
+        <div
+          key={row.id}
+          className="diff-split-row diff-run"
+          onClick={() => toggle(row.id)}
+          style={{ cursor: "pointer" }}
+        >
+          <span style={{ paddingLeft: `${row.depth * 1.5}rem` }}>
+            ⋯ {row.count} unchanged
+          </span>
+        </div>
+      );
+    }
+
+    const { node } = row;
+    const { leftValue, rightValue } = getValues(node, left.data, right.data);
+    const indent = { paddingLeft: `${row.depth * 1.5}rem` };
+    const nodeId = getNodeId(node);
+
+    const cell = (
+      side: "left" | "right",
+      present: boolean,
+      content: ReactNode
+    ) => {
+      const status =
+        node.status === "changed"
+          ? side === "left"
+            ? "removed"
+            : "added"
+          : node.status;
+      return (
+        <div
+          className={`diff-cell ${present ? `diff-${status}` : "diff-empty"}`}
+        >
+          {present && <span style={indent}>{content}</span>}
+        </div>
+      );
+    };
+
+    if (row.type === "close") {
+      const brace = (
+        <span className="brace">
+          {Array.isArray(leftValue ?? rightValue) ? "]" : "}"}
+        </span>
+      );
+      return (
+        <div key={row.id} className="diff-split-row">
+          {cell("left", node.leftPath !== null, brace)}
+          {cell("right", node.rightPath !== null, brace)}
+        </div>
+      );
+    }
+
+    const expandable = isExpandable(
+      node,
+      node.leftPath ? leftValue : rightValue
+    );
+    return (
+      <div
+        key={row.id}
+        className={`diff-split-row ${nodeId === currentId ? "diff-current" : ""}`}
+        data-diff-id={nodeId}
+        onClick={expandable ? () => toggle(nodeId) : undefined}
+        style={{ cursor: expandable ? "pointer" : undefined }}
+      >
+        {cell(
+          "left",
+          node.leftPath !== null,
+          <>
+            {renderToggle(row)}
+            {renderSide(node.leftPath, leftValue, row.expanded)}
+          </>
+        )}
+        {cell(
+          "right",
+          node.rightPath !== null,
+          <>
+            {renderToggle(row)}
+            {renderSide(node.rightPath, rightValue, row.expanded)}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="diff-view" ref={containerRef}>
+      <div className="diff-toolbar">
+        <span className="diff-title" title={`${left.name} → ${right.name}`}>
+          {left.name} → {right.name}
+        </span>
+        <select
+          className="search-mode-select"
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as DiffLayout)}
+          title="Layout"
+        >
+          <option value="unified">Unified</option>
+          <option value="split">Side by side</option>
+        </select>
+        <label className="search-type-filter">
+          <input
+            type="checkbox"
+            checked={ignoreArrayOrder}
+            onChange={(e) => setIgnoreArrayOrder(e.target.checked)}
+          />
+          Ignore array order
+        </label>
+        <input
+          className="diff-ignored-keys"
+          value={ignoredKeysText}
+          onChange={(e) => setIgnoredKeysText(e.target.value)}
+          placeholder="Ignore keys, e.g. id, timestamp"
+        />
+        <div className="match-navigation">
+          <button
+            className="nav-button"
+            onClick={() => goToDifference(-1)}
+            disabled={differences.length === 0}
+            title="Previous difference"
+          >
+            ↑
+          </button>
+          <span className="match-count">
+            {diffError
+              ? "Compare failed"
+              : !result
+                ? "Comparing…"
+                : `${currentIndex >= 0 ? `${currentIndex + 1}/` : ""}${
+                    result.differenceCount
+                  } ${result.differenceCount === 1 ? "difference" : "differences"}`}
+          </span>
+          <button
+            className="nav-button"
+            onClick={() => goToDifference(1)}
+            disabled={differences.length === 0}
+            title="Next difference"
+          >
+            ↓
+          </button>
+        </div>
+        <button onClick={onClose} className="secondary-button">
+          Close
+        </button>
+      </div>
+      {diffError && <div className="error-message">{diffError}</div>}
+      {layout === "split" && (
+        <div className="diff-split-row diff-split-header">
+          <div className="diff-cell">{left.name}</div>
+          <div className="diff-cell">{right.name}</div>
+        </div>
+      )}
+      <div className="diff-lines">
+        {rows.map(layout === "unified" ? renderUnifiedRow : renderSplitRow)}
+      </div>
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { EDITABLE_TYPES, EditableType } from "../utils/jsonEdit";
+
+// InlineEditor component for editing a key or value inside a tree row
+const InlineEditor = ({
+  initialText,
+  initialType,
+  onCommit,
+  onCancel,
+}: {
+  initialText: string;
+  // Omitted when editing a key, which is always a string
+  initialType?: EditableType;
+  // Returns an error message when the text can't be applied
+  onCommit: (text: string, type: EditableType) => string | null;
+  onCancel: () => void;
+}) => {
+  const [text, setText] = useState(initialText);
+  const [type, setType] = useState<EditableType>(initialType ?? "string");
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const selectRef = useRef<HTMLSelectElement>(null);
+  // Set once the edit is committed or cancelled so a late blur is ignored
+  const finished = useRef(false);
+
+  // Null values have nothing to type, so the type picker gets focus
+  useEffect(() => {
+    if (initialType === "null") {
+      selectRef.current?.focus();
+    } else {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [initialType]);
+
+  const commit = () => {
+    if (finished.current) return;
+    const commitError = onCommit(text, type);
+    setError(commitError);
+    finished.current = commitError === null;
+  };
+
+  const cancel = () => {
+    finished.current = true;
+    onCancel();
+  };
+
+  const changeType = (newType: EditableType) => {
+    setType(newType);
+    setError(null);
+    if (newType === "boolean" && !["true", "false"].includes(text.trim())) {
+      setText("true");
+    }
+  };
+
+  return (
+    <span
+      className={`inline-editor ${error ? "invalid" : ""}`}
+      title={error ?? undefined}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          commit();
+        } else if (e.key === "Escape") {
+          e.preventDefault();
+          cancel();
+        }
+      }}
+      // Commit once focus leaves the editor, not when it moves inside it
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          commit();
+        }
+      }}
+    >
+      {initialType && (
+        <select
+          ref={selectRef}
+          value={type}
+          onChange={(e) => changeType(e.target.value as EditableType)}
+          title="Value type"
+        >
+          {EDITABLE_TYPES.map((editableType) => (
+            <option key={editableType} value={editableType}>
+              {editableType}
+            </option>
+          ))}
+        </select>
+      )}
+      <input
+        ref={inputRef}
+        value={type === "null" ? "null" : text}
+        disabled={type === "null"}
+        onChange={(e) => {
+          setText(e.target.value);
+          setError(null);
+        }}
+      />
+    </span>
+  );
+};
+
+export default InlineEditor;
@@ -0,0 +1,273 @@
+import { defaultKeymap, indentWithTab } from "@codemirror/commands";
+import { json } from "@codemirror/lang-json";
+import {
+  bracketMatching,
+  foldGutter,
+  foldKeymap,
+  indentOnInput,
+  syntaxHighlighting,
+} from "@codemirror/language";
+import { lintGutter, setDiagnostics } from "@codemirror/lint";
+import {
+  highlightSelectionMatches,
+  search,
+  searchKeymap,
+} from "@codemirror/search";
+import {
+  Annotation,
+  Compartment,
+  EditorState,
+  Extension,
+} from "@codemirror/state";
+import {
+  drawSelection,
+  EditorView,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  placeholder,
+} from "@codemirror/view";
+import { tagHighlighter, tags } from "@lezer/highlight";
+import { useEffect, useLayoutEffect, useRef } from "react";
+import { ParseDiagnostic } from "../utils/jsonParser";
+
+// Longer texts aren't highlighted and their brackets aren't matched; a
+// minified document is one long line that would be drawn as a whole
+const HIGHLIGHT_TEXT_LIMIT = 1_000_000;
+
+// Tokens get the classes the tree view colours its keys and values with
+const jsonHighlighter = tagHighlighter([
+  { tag: tags.propertyName, class: "json-key" },
+  { tag: tags.string, class: "json-string" },
+  { tag: tags.number, class: "json-number" },
+  { tag: tags.bool, class: "json-boolean" },
+  { tag: tags.null, class: "json-null" },
+]);
+
+// Colours come from CSS variables set on .json-editor, which switch with
+// the colour scheme
+const editorTheme = EditorView.theme({
+  "&": {
+    height: "100%",
+    color: "var(--editor-text)",
+    backgroundColor: "var(--editor-background)",
+  },
+  ".cm-scroller": {
+    fontFamily: "monospace",
+    fontSize: "13px",
+    lineHeight: "18px",
+  },
+  ".cm-content": { caretColor: "var(--editor-text)" },
+  ".cm-cursor, .cm-dropCursor": { borderLeftColor: "var(--editor-text)" },
+  "&.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection":
+    { backgroundColor: "var(--editor-selection)" },
+  ".cm-gutters": {
+    color: "var(--editor-gutter-text)",
+    backgroundColor: "var(--editor-background)",
+    borderRight: "1px solid var(--editor-border)",
+  },
+  ".cm-activeLine, .cm-activeLineGutter": {
+    backgroundColor: "var(--editor-active-line)",
+  },
+  "&.cm-focused .cm-matchingBracket": {
+    backgroundColor: "var(--editor-matching-bracket)",
+  },
+  "&.cm-focused .cm-nonmatchingBracket": {
+    backgroundColor: "var(--editor-problem)",
+  },
+  ".cm-searchMatch": { backgroundColor: "var(--editor-search-match)" },
+  ".cm-panels": {
+    color: "var(--editor-text)",
+    backgroundColor: "var(--editor-panel)",
+  },
+  ".cm-panels.cm-panels-top": {
+    borderBottom: "1px solid var(--editor-border)",
+  },
+  ".cm-tooltip": {
+    color: "var(--editor-text)",
+    backgroundColor: "var(--editor-panel)",
+    border: "1px solid var(--editor-border)",
+  },
+});
+
+// Marks changes made from outside, which aren't reported back
+const externalChange = Annotation.define<boolean>();
+
+// Replace only the part of the document that differs, so that the cursor
+// stays put when e.g. undo changes a few characters
+const getChange = (current: string, next: string) => {
+  let start = 0;
+  const maxStart = Math.min(current.length, next.length);
+  while (start < maxStart && current[start] === next[start]) start++;
+  let end = 0;
+  const maxEnd = maxStart - start;
+  while (
+    end < maxEnd &&
+    current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+  return {
+    from: start,
+    to: current.length - end,
+    insert: next.slice(start, next.length - end),
+  };
+};
+
+const getLanguageExtensions = (isLarge: boolean): Extension =>
+  isLarge
+    ? []
+    : [json(), syntaxHighlighting(jsonHighlighter), bracketMatching()];
+
+// JsonEditor component: a code editor for the document with line numbers,
+// highlighting, folding and find/replace (Cmd/Ctrl+F). Problems found by
+// the parser are underlined.
+const JsonEditor = ({
+  value,
+  onChange,
+  diagnostics,
+  selectionRequest,
+  onCursorChange,
+}: {
+  value: string;
+  onChange: (text: string) => void;
+  diagnostics: ParseDiagnostic[];
+  // Text to select, e.g. a problem picked in the list; each new object
+  // selects again
+  selectionRequest?: { start: number; end: number } | null;
+  // Reports where the cursor is as it moves
+  onCursorChange?: (offset: number) => void;
+}) => {
+  const parentRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const languageRef = useRef(new Compartment());
+  // The text last reported, which needn't be written back to the editor
+  const reportedRef = useRef(value);
+  const onChangeRef = useRef(onChange);
+  const onCursorChangeRef = useRef(onCursorChange);
+  const isLarge = value.length > HIGHLIGHT_TEXT_LIMIT;
+
+  useLayoutEffect(() => {
+    onChangeRef.current = onChange;
+    onCursorChangeRef.current = onCursorChange;
+  });
+
+  // The editor keeps its own state, created from the first value; later
+  // value changes are applied to it. Each document gets an editor of its
+  // own, so that folds and history don't carry over.
+  useEffect(() => {
+    const initialValue = reportedRef.current;
+    const view = new EditorView({
+      parent: parentRef.current!,
+      state: EditorState.create({
+        doc: initialValue,
+        extensions: [
+          lineNumbers(),
+          highlightActiveLineGutter(),
+          foldGutter(),
+          lintGutter(),
+          highlightSpecialChars(),
+          drawSelection(),
+          indentOnInput(),
+          highlightActiveLine(),
+          highlightSelectionMatches(),
+          search({ top: true }),
+          languageRef.current.of(
+            getLanguageExtensions(initialValue.length > HIGHLIGHT_TEXT_LIMIT)
+          ),
+          placeholder("Paste your JSON here..."),
+          // Undo and redo are left to the document history of the tab
+          keymap.of([
+            ...defaultKeymap,
+            ...searchKeymap,
+            ...foldKeymap,
+            indentWithTab,
+          ]),
+          editorTheme,
+          EditorView.updateListener.of((update) => {
+            if (update.selectionSet || update.docChanged) {
+              onCursorChangeRef.current?.(update.state.selection.main.head);
+            }
+            if (
+              !update.docChanged ||
+              update.transactions.some((tr) => tr.annotation(externalChange))
+            ) {
+              return;
+            }
+            const text = update.state.doc.toString();
+            reportedRef.current = text;
+            onChangeRef.current(text);
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || value === reportedRef.current) return;
+
+    reportedRef.current = value;
+    const current = view.state.doc.toString();
+    if (current === value) return;
+    view.dispatch({
+      changes: getChange(current, value),
+      annotations: externalChange.of(true),
+    });
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: languageRef.current.reconfigure(getLanguageExtensions(isLarge)),
+    });
+  }, [isLarge]);
+
+  // Problems may come from a parse of slightly older text, so their
+  // positions are kept inside the document
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    const length = view.state.doc.length;
+    view.dispatch(
+      setDiagnostics(
+        view.state,
+        diagnostics.map((diagnostic) => {
+          const from = Math.min(diagnostic.offset, length);
+          return {
+            from,
+            to: Math.min(from + diagnostic.length, length),
+            severity: "error",
+            message: diagnostic.message,
+          };
+        })
+      )
+    );
+  }, [diagnostics]);
+
+  // Select the requested text and scroll it into the middle
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!selectionRequest || !view) return;
+
+    const length = view.state.doc.length;
+    const anchor = Math.min(selectionRequest.start, length);
+    view.dispatch({
+      selection: { anchor, head: Math.min(selectionRequest.end, length) },
+      effects: EditorView.scrollIntoView(anchor, { y: "center" }),
+    });
+    view.focus();
+  }, [selectionRequest]);
+
+  return <div ref={parentRef} className="json-editor" />;
+};
+
+export default JsonEditor;
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import {
+  assignBinding,
+  COMMANDS,
+  CommandId,
+  formatBinding,
+  fuzzyMatch,
+  getBindings,
+  getCommandTitle,
+  getEventBinding,
+  KeyBindingOverrides,
+} from "../utils/commands";
+
+// KeyBindingsDialog component for changing the keys of commands. Changing
+// a binding records the next key press; a binding already in use moves to
+// the new command.
+const KeyBindingsDialog = ({
+  keyBindings,
+  onChange,
+  onClose,
+}: {
+  keyBindings: KeyBindingOverrides;
+  onChange: (keyBindings: KeyBindingOverrides) => void;
+  onClose: () => void;
+}) => {
+  const [filter, setFilter] = useState<string>("");
+  // Command waiting for its new key press
+  const [recordingId, setRecordingId] = useState<CommandId | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const commands = COMMANDS.filter((command) =>
+    fuzzyMatch(filter, getCommandTitle(command))
+  );
+
+  const handleKeyDownCapture = (e: React.KeyboardEvent) => {
+    if (!recordingId) {
+      if (e.key === "Escape") onClose();
+      return;
+    }
+
+    // Keys pressed while recording are the binding, not input
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      setRecordingId(null);
+      return;
+    }
+    const binding = getEventBinding(e.nativeEvent);
+    if (!binding) return;
+
+    const previous = COMMANDS.find(
+      (command) =>
+        command.id !== recordingId &&
+        getBindings(keyBindings, command.id).includes(binding)
+    );
+    setNotice(
+      previous
+        ? `${formatBinding(binding)} was removed from "${getCommandTitle(previous)}"`
+        : null
+    );
+    onChange(assignBinding(keyBindings, recordingId, binding));
+    setRecordingId(null);
+  };
+
+  const resetBindings = (id: CommandId) => {
+    const next = { ...keyBindings };
+    delete next[id];
+    onChange(next);
+  };
+
+  return (
+    <div className="command-overlay" onMouseDown={onClose}>
+      <div
+        className="key-bindings-dialog"
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDownCapture={handleKeyDownCapture}
+      >
+        <div className="diff-toolbar">
+          <span className="diff-title">Keyboard Shortcuts</span>
+          <input
+            className="diff-ignored-keys"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter commands"
+            autoFocus
+          />
+          <button onClick={onClose} className="secondary-button">
+            Close
+          </button>
+        </div>
+        {notice && <div className="key-bindings-notice">{notice}</div>}
+        <ul className="key-bindings-list">
+          {commands.map((command) => {
+            const bindings = getBindings(keyBindings, command.id);
+            const isRecording = recordingId === command.id;
+            return (
+              <li key={command.id} className="key-bindings-item">
+                <span className="key-bindings-title">
+                  {getCommandTitle(command)}
+                </span>
+                <span className="key-bindings-keys">
+                  {isRecording ? (
+                    <em>Press keys… (Escape cancels)</em>
+                  ) : bindings.length > 0 ? (
+                    bindings.map((binding) => (
+                      <kbd key={binding}>{formatBinding(binding)}</kbd>
+                    ))
+                  ) : (
+                    <em>Not bound</em>
+                  )}
+                </span>
+                <button
+                  onClick={() =>
+                    setRecordingId(isRecording ? null : command.id)
+                  }
+                  className="secondary-button"
+                >
+                  {isRecording ? "Cancel" : "Change"}
+                </button>
+                <button
+                  onClick={() => onChange({ ...keyBindings, [command.id]: [] })}
+                  className="secondary-button"
+                  disabled={bindings.length === 0}
+                >
+                  Remove
+                </button>
+                <button
+                  onClick={() => resetBindings(command.id)}
+                  className="secondary-button"
+                  disabled={keyBindings[command.id] === undefined}
+                  title={`Default: ${
+                    command.defaultBindings.map(formatBinding).join(", ") ||
+                    "not bound"
+                  }`}
+                >
+                  Reset
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default KeyBindingsDialog;
@@ -0,0 +1,57 @@
+import { ParseDiagnostic } from "../utils/jsonParser";
+
+// ParseDiagnostics component listing the problems of a document that
+// doesn't parse, with the repairs the parser suggests
+const ParseDiagnostics = ({
+  diagnostics,
+  onSelect,
+  onRepair,
+}: {
+  diagnostics: ParseDiagnostic[];
+  onSelect: (diagnostic: ParseDiagnostic) => void;
+  onRepair: (diagnostics: ParseDiagnostic[]) => void;
+}) => {
+  const repairable = diagnostics.filter((diagnostic) => diagnostic.repair);
+
+  return (
+    <div className="validation-panel">
+      <div className="validation-header">
+        <span className="validation-summary invalid">
+          {diagnostics.length} problem{diagnostics.length === 1 ? "" : "s"} in
+          the JSON
+        </span>
+        {repairable.length > 0 && (
+          <button
+            className="secondary-button"
+            onClick={() => onRepair(repairable)}
+            title="Apply every suggested repair"
+          >
+            Fix All
+          </button>
+        )}
+      </div>
+      <ul className="validation-errors">
+        {diagnostics.map((diagnostic, index) => (
+          <li key={index}>
+            <button onClick={() => onSelect(diagnostic)} title="Show in editor">
+              <span className="validation-path">
+                {diagnostic.line}:{diagnostic.column}
+              </span>
+              <span className="validation-message">{diagnostic.message}</span>
+            </button>
+            {diagnostic.repair && (
+              <button
+                className="diagnostic-repair"
+                onClick={() => onRepair([diagnostic])}
+              >
+                {diagnostic.repair.label}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ParseDiagnostics;
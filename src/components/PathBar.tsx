@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import { formatPath } from "../utils/pathFormat";
+import { PathSegment } from "../utils/query";
+
+// PathBar component showing where a node sits in the document, with each
+// ancestor clickable, and a field to go to a path
+const PathBar = ({
+  path,
+  onSelect,
+  onGoTo,
+  focusRequest,
+}: {
+  path: PathSegment[];
+  onSelect: (path: PathSegment[]) => void;
+  // Returns why the path couldn't be gone to, or null
+  onGoTo: (text: string) => string | null;
+  // Each new object focuses the go to path field
+  focusRequest?: object | null;
+}) => {
+  const [goToText, setGoToText] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest]);
+
+  const submit = () => {
+    const goToError = onGoTo(goToText);
+    setError(goToError);
+    if (!goToError) inputRef.current?.blur();
+  };
+
+  return (
+    <div className="path-bar">
+      <nav className="breadcrumbs" aria-label="Path of the node">
+        {[null, ...path].map((segment, index) => {
+          const crumbPath = path.slice(0, index);
+          return (
+            <span key={index} className="breadcrumb">
+              {index > 0 && <span className="breadcrumb-separator">›</span>}
+              <button
+                className={
+                  index === path.length
+                    ? "breadcrumb-button current"
+                    : "breadcrumb-button"
+                }
+                onClick={() => onSelect(crumbPath)}
+                title={formatPath(crumbPath, "jsonpath")}
+              >
+                {segment === null
+                  ? "$"
+                  : typeof segment === "number"
+                    ? `[${segment}]`
+                    : segment}
+              </button>
+            </span>
+          );
+        })}
+      </nav>
+      <form
+        className="go-to-path"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <input
+          ref={inputRef}
+          className={error ? "invalid" : undefined}
+          value={goToText}
+          onChange={(e) => {
+            setGoToText(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              setError(null);
+              e.currentTarget.blur();
+            }
+          }}
+          placeholder="Go to path: $.items[0] or /items/0"
+          title={error ?? "Go to a JSONPath or JSON Pointer"}
+          aria-invalid={!!error}
+        />
+        {error && <span className="go-to-path-error">{error}</span>}
+      </form>
+    </div>
+  );
+};
+
+export default PathBar;
@@ -0,0 +1,234 @@
+import { RefObject } from "react";
+import { QueryLanguage } from "../utils/query";
+import {
+  SEARCH_VALUE_TYPES,
+  SearchOptions,
+  SearchValueType,
+} from "../utils/search";
+
+// Plain text search, or a query that filters the tree
+export type SearchMode = "text" | QueryLanguage;
+
+// State of the last query run from the search bar
+export type QueryStatus =
+  | { state: "running" }
+  | { state: "error"; error: string }
+  | { state: "done"; resultCount: number; locatedCount: number };
+
+const VALUE_TYPE_LABELS: Record<SearchValueType, string> = {
+  string: "Strings",
+  number: "Numbers",
+  boolean: "Booleans",
+  null: "Null",
+};
+
+const QUERY_PLACEHOLDERS: Record<SearchMode, string> = {
+  text: "Search in JSON...",
+  jsonpath: "$.items[?(@.status == 'failed')].price",
+  jq: '.items[] | select(.status == "failed") | .price',
+};
+
+// SearchBar component for text search and JSONPath / jq queries
+const SearchBar = ({
+  inputRef,
+  mode,
+  onModeChange,
+  searchTerm,
+  onSearchTermChange,
+  searchOptions,
+  onSearchOptionsChange,
+  searchError,
+  query,
+  onQueryChange,
+  onRunQuery,
+  queryStatus,
+  onOpenQueryResult,
+  onClear,
+}: {
+  inputRef: RefObject<HTMLInputElement | null>;
+  mode: SearchMode;
+  onModeChange: (mode: SearchMode) => void;
+  searchTerm: string;
+  onSearchTermChange: (searchTerm: string) => void;
+  searchOptions: SearchOptions;
+  onSearchOptionsChange: (searchOptions: SearchOptions) => void;
+  // Error for an invalid regular expression in regex mode
+  searchError: string | null;
+  query: string;
+  onQueryChange: (query: string) => void;
+  onRunQuery: () => void;
+  queryStatus: QueryStatus | null;
+  onOpenQueryResult: () => void;
+  onClear: () => void;
+}) => {
+  const isQueryMode = mode !== "text";
+
+  const updateOptions = (updates: Partial<SearchOptions>) => {
+    onSearchOptionsChange({ ...searchOptions, ...updates });
+  };
+
+  const toggleValueType = (type: SearchValueType) => {
+    const valueTypes = searchOptions.valueTypes.includes(type)
+      ? searchOptions.valueTypes.filter((valueType) => valueType !== type)
+      : SEARCH_VALUE_TYPES.filter(
+          (valueType) =>
+            valueType === type || searchOptions.valueTypes.includes(valueType)
+        );
+    updateOptions({ valueTypes });
+  };
+
+  // Toggle button for a boolean search option
+  const renderToggle = (
+    option: "regex" | "caseSensitive" | "wholeWord",
+    label: string,
+    title: string
+  ) => (
+    <button
+      className={`search-option-toggle ${
+        searchOptions[option] ? "active" : ""
+      }`}
+      onClick={() => updateOptions({ [option]: !searchOptions[option] })}
+      title={title}
+      aria-pressed={searchOptions[option]}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      style={{
+        padding: "10px",
+        marginBottom: "10px",
+        background: "#333",
+        borderRadius: "4px",
+        animation: "fadeIn 0.2s ease-in-out",
+      }}
+    >
+      <div style={{ display: "flex", gap: "10px" }}>
+        <select
+          className="search-mode-select"
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as SearchMode)}
+          title="Search mode"
+        >
+          <option value="text">Text</option>
+          <option value="jsonpath">JSONPath</option>
+          <option value="jq">jq</option>
+        </select>
+        <input
+          ref={inputRef}
+          type="text"
+          placeholder={QUERY_PLACEHOLDERS[mode]}
+          className="search-input"
+          value={isQueryMode ? query : searchTerm}
+          onChange={(e) =>
+            isQueryMode
+              ? onQueryChange(e.target.value)
+              : onSearchTermChange(e.target.value)
+          }
+          onKeyDown={(e) => {
+            if (isQueryMode && e.key === "Enter") {
+              e.preventDefault();
+              onRunQuery();
+            }
+          }}
+          style={{
+            flex: 1,
+            padding: "8px",
+            borderRadius: "4px",
+            border: "1px solid #444",
+            background: "#1a1a1a",
+            color: "#fff",
+            fontFamily: isQueryMode ? "monospace" : undefined,
+          }}
+        />
+        {isQueryMode ? (
+          <button onClick={onRunQuery} className="query-button">
+            Run
+          </button>
+        ) : (
+          <div className="search-option-toggles">
+            {renderToggle("caseSensitive", "Aa", "Match case")}
+            {renderToggle("wholeWord", "ab", "Match whole word")}
+            {renderToggle("regex", ".*", "Use regular expression")}
+          </div>
+        )}
+        <button
+          onClick={onClear}
+          style={{
+            padding: "8px",
+            borderRadius: "4px",
+            border: "1px solid #f1fa8c",
+            background: "transparent",
+            color: "#f1fa8c",
+            cursor: "pointer",
+          }}
+        >
+          Clear
+        </button>
+      </div>
+      {!isQueryMode && (
+        <div className="search-options">
+          <select
+            className="search-mode-select"
+            value={searchOptions.scope}
+            onChange={(e) =>
+              updateOptions({
+                scope: e.target.value as SearchOptions["scope"],
+              })
+            }
+            title="Search scope"
+          >
+            <option value="both">Keys and values</option>
+            <option value="keys">Keys only</option>
+            <option value="values">Values only</option>
+          </select>
+          {SEARCH_VALUE_TYPES.map((type) => (
+            <label key={type} className="search-type-filter">
+              <input
+                type="checkbox"
+                checked={searchOptions.valueTypes.includes(type)}
+                disabled={searchOptions.scope === "keys"}
+                onChange={() => toggleValueType(type)}
+              />
+              {VALUE_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      )}
+      {!isQueryMode && searchError && (
+        <div className="query-status">
+          <span className="query-error">{searchError}</span>
+        </div>
+      )}
+      {isQueryMode && queryStatus && (
+        <div className="query-status">
+          {queryStatus.state === "running" && <span>Running query…</span>}
+          {queryStatus.state === "error" && (
+            <span className="query-error">{queryStatus.error}</span>
+          )}
+          {queryStatus.state === "done" && (
+            <>
+              <span>
+                {queryStatus.resultCount}{" "}
+                {queryStatus.resultCount === 1 ? "result" : "results"}
+                {queryStatus.locatedCount < queryStatus.resultCount &&
+                  ` (${queryStatus.locatedCount} shown in tree)`}
+              </span>
+              <button
+                onClick={onOpenQueryResult}
+                className="query-button"
+                disabled={queryStatus.resultCount === 0}
+              >
+                Open as Tab
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
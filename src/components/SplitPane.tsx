@@ -0,0 +1,111 @@
+import { ReactNode, useRef, useState } from "react";
+import { SplitLayout } from "../utils/session";
+
+// Each pane keeps at least this share of the space
+const MIN_RATIO = 0.15;
+// Share the arrow keys move the divider by
+const KEYBOARD_STEP = 0.05;
+
+const clampRatio = (ratio: number) =>
+  Math.min(1 - MIN_RATIO, Math.max(MIN_RATIO, ratio));
+
+// SplitPane component showing two panes next to each other or one above the
+// other. The divider between them is dragged, or moved with the arrow keys
+// once focused.
+const SplitPane = ({
+  direction,
+  ratio,
+  onRatioChange,
+  first,
+  second,
+}: {
+  direction: SplitLayout["direction"];
+  ratio: number;
+  onRatioChange: (ratio: number) => void;
+  first: ReactNode;
+  second: ReactNode;
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Ratio while the divider is dragged; reported once it is let go so the
+  // panes' contents don't render on every move
+  const [dragRatio, setDragRatio] = useState<number | null>(null);
+  const isHorizontal = direction === "horizontal";
+  const shownRatio = dragRatio ?? ratio;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragRatio(ratio);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    if (dragRatio === null || !container) return;
+
+    const rect = container.getBoundingClientRect();
+    setDragRatio(
+      clampRatio(
+        isHorizontal
+          ? (e.clientX - rect.left) / rect.width
+          : (e.clientY - rect.top) / rect.height
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    if (dragRatio === null) return;
+    onRatioChange(dragRatio);
+    setDragRatio(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step =
+      e.key === (isHorizontal ? "ArrowLeft" : "ArrowUp")
+        ? -KEYBOARD_STEP
+        : e.key === (isHorizontal ? "ArrowRight" : "ArrowDown")
+          ? KEYBOARD_STEP
+          : null;
+    if (step !== null) {
+      e.preventDefault();
+      onRatioChange(clampRatio(ratio + step));
+    } else if (e.key === "Home" || e.key === "End") {
+      e.preventDefault();
+      onRatioChange(e.key === "Home" ? MIN_RATIO : 1 - MIN_RATIO);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`split-pane ${direction} ${dragRatio !== null ? "dragging" : ""}`}
+    >
+      <div
+        className="split-pane-first"
+        style={{ flexBasis: `${shownRatio * 100}%` }}
+      >
+        {first}
+      </div>
+      <div
+        className="split-pane-divider"
+        role="separator"
+        aria-orientation={isHorizontal ? "vertical" : "horizontal"}
+        aria-valuemin={MIN_RATIO * 100}
+        aria-valuemax={(1 - MIN_RATIO) * 100}
+        aria-valuenow={Math.round(shownRatio * 100)}
+        aria-label="Resize panes"
+        tabIndex={0}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        onDoubleClick={() => onRatioChange(0.5)}
+        title="Drag to resize; double-click to share evenly"
+      />
+      <div className="split-pane-second">{second}</div>
+    </div>
+  );
+};
+
+export default SplitPane;
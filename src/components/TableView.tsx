@@ -0,0 +1,292 @@
+import { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import {
+  formatCell,
+  getCellValue,
+  getTableColumns,
+  getVisibleRows,
+  TableColumn,
+  TableSort,
+  toTsv,
+} from "../utils/tableData";
+
+// Rows are positioned from their heights so only the visible ones render
+const ROW_HEIGHT = 24;
+// Height of a line of an expanded object cell
+const EXPANDED_LINE_HEIGHT = 16;
+// Taller expanded cells scroll
+const MAX_EXPANDED_LINES = 15;
+// Rows rendered above and below the viewport to avoid flicker while scrolling
+const OVERSCAN = 10;
+// How long the Copy button shows that the rows were copied
+const COPIED_NOTICE_MS = 1500;
+
+const getCellKey = (index: number, column: TableColumn) =>
+  `${index}:${column.id}`;
+
+const getExpandedHeight = (value: unknown) => {
+  const lines = JSON.stringify(value, null, 2).split("\n").length;
+  return Math.min(lines, MAX_EXPANDED_LINES) * EXPANDED_LINE_HEIGHT + 8;
+};
+
+// Index of the last row starting at or before offset
+const findRowAt = (offsets: number[], offset: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+// TableView component showing an array as a spreadsheet-style table that
+// can be sorted, filtered and copied
+const TableView = ({
+  name,
+  items,
+  onClose,
+}: {
+  // Shown in the toolbar, e.g. the path of the array
+  name: string;
+  items: unknown[];
+  onClose: () => void;
+}) => {
+  const [filter, setFilter] = useState<string>("");
+  const [sort, setSort] = useState<TableSort | null>(null);
+  // Ids of the columns that are hidden
+  const [hiddenColumns, setHiddenColumns] = useState<Set<string>>(new Set());
+  // Object and array cells that are expanded, by item index and column
+  const [expandedCells, setExpandedCells] = useState<Set<string>>(new Set());
+  const [copied, setCopied] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(0);
+  const bodyRef = useRef<HTMLDivElement>(null);
+
+  const columns = useMemo(() => getTableColumns(items), [items]);
+  const shownColumns = columns.filter(
+    (column) => !hiddenColumns.has(column.id)
+  );
+  const rows = useMemo(
+    () => getVisibleRows(items, columns, filter, sort),
+    [items, columns, filter, sort]
+  );
+
+  // Top of each row; rows with expanded cells are taller
+  const offsets = useMemo(() => {
+    const extraHeights = new Map<number, number>();
+    expandedCells.forEach((key) => {
+      const separator = key.indexOf(":");
+      const index = Number(key.slice(0, separator));
+      const column = columns.find(({ id }) => id === key.slice(separator + 1));
+      if (!column || hiddenColumns.has(column.id)) return;
+      const height = getExpandedHeight(getCellValue(items[index], column));
+      extraHeights.set(index, Math.max(extraHeights.get(index) ?? 0, height));
+    });
+
+    const tops = [0];
+    rows.forEach((index) =>
+      tops.push(
+        tops[tops.length - 1] +
+          Math.max(ROW_HEIGHT, extraHeights.get(index) ?? 0)
+      )
+    );
+    return tops;
+  }, [rows, items, columns, expandedCells, hiddenColumns]);
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const resizeObserver = new ResizeObserver(() =>
+      setViewportHeight(body.clientHeight)
+    );
+    resizeObserver.observe(body);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), COPIED_NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const toggleSort = (column: TableColumn) => {
+    // Ascending, then descending, then unsorted
+    setSort((current) =>
+      current?.column.id !== column.id
+        ? { column, descending: false }
+        : current.descending
+          ? null
+          : { column, descending: true }
+    );
+  };
+
+  const toggleColumn = (column: TableColumn) => {
+    setHiddenColumns((current) => {
+      const next = new Set(current);
+      if (next.has(column.id)) next.delete(column.id);
+      else next.add(column.id);
+      return next;
+    });
+  };
+
+  const toggleCell = (key: string) => {
+    setExpandedCells((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Copy the rows and columns that are shown, in their current order
+  const copyAsTsv = () => {
+    navigator.clipboard
+      .writeText(toTsv(items, rows, shownColumns))
+      .then(() => setCopied(true))
+      .catch((copyError) =>
+        setError("Could not copy: " + (copyError as Error).message)
+      );
+  };
+
+  const renderCell = (index: number, column: TableColumn): ReactNode => {
+    const value = getCellValue(items[index], column);
+    if (value === undefined) {
+      return <span className="table-cell missing" key={column.id} />;
+    }
+    if (value === null || typeof value !== "object") {
+      const text = formatCell(value);
+      return (
+        <span
+          className={`table-cell json-${value === null ? "null" : typeof value}`}
+          key={column.id}
+          title={text}
+        >
+          {text}
+        </span>
+      );
+    }
+
+    const key = getCellKey(index, column);
+    const isExpanded = expandedCells.has(key);
+    const size = Array.isArray(value)
+      ? value.length
+      : Object.keys(value).length;
+    return (
+      <span className="table-cell nested" key={column.id}>
+        <button className="table-cell-toggle" onClick={() => toggleCell(key)}>
+          {isExpanded ? "▼" : "▶"}{" "}
+          {Array.isArray(value) ? `[${size}]` : `{${size}}`}
+        </button>
+        {isExpanded && (
+          <pre className="table-cell-json">
+            {JSON.stringify(value, null, 2)}
+          </pre>
+        )}
+      </span>
+    );
+  };
+
+  // Every row shares the header's columns and scrolls sideways with it
+  const rowStyle = {
+    gridTemplateColumns: `4em repeat(${shownColumns.length}, minmax(8em, 1fr))`,
+    minWidth: `${4 + shownColumns.length * 8}em`,
+  };
+  const startRow = Math.max(0, findRowAt(offsets, scrollTop) - OVERSCAN);
+  const endRow = Math.min(
+    rows.length,
+    findRowAt(offsets, scrollTop + viewportHeight) + OVERSCAN + 1
+  );
+
+  return (
+    <div className="table-view">
+      <div className="table-toolbar">
+        <span className="table-title" title={name}>
+          {name}: {rows.length === items.length ? "" : `${rows.length} of `}
+          {items.length} rows
+        </span>
+        <input
+          className="table-filter"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter rows"
+          title="Show rows with a cell containing this text"
+        />
+        <details className="table-columns">
+          <summary className="secondary-button">
+            Columns
+            {hiddenColumns.size > 0 && ` (${hiddenColumns.size} hidden)`}
+          </summary>
+          <div className="table-columns-list">
+            {columns.map((column) => (
+              <label key={column.id}>
+                <input
+                  type="checkbox"
+                  checked={!hiddenColumns.has(column.id)}
+                  onChange={() => toggleColumn(column)}
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+        </details>
+        <button
+          onClick={copyAsTsv}
+          className="secondary-button"
+          title="Copy the shown rows and columns as tab-separated values"
+        >
+          {copied ? "Copied" : "Copy as TSV"}
+        </button>
+        <button onClick={onClose} className="secondary-button">
+          Back to Tree
+        </button>
+      </div>
+      {error && <div className="error-message">{error}</div>}
+      <div
+        ref={bodyRef}
+        className="table-body"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="table-row table-header" style={rowStyle}>
+          <span className="table-cell table-index">#</span>
+          {shownColumns.map((column) => (
+            <button
+              key={column.id}
+              className="table-cell"
+              onClick={() => toggleSort(column)}
+              title={`Sort by ${column.label}`}
+            >
+              {column.label}
+              {sort?.column.id === column.id && (sort.descending ? " ▼" : " ▲")}
+            </button>
+          ))}
+        </div>
+        <div
+          style={{ height: offsets[offsets.length - 1], position: "relative" }}
+        >
+          {rows.slice(startRow, endRow).map((index, i) => {
+            const row = startRow + i;
+            return (
+              <div
+                key={index}
+                className="table-row"
+                style={{
+                  ...rowStyle,
+                  position: "absolute",
+                  top: offsets[row],
+                  height: offsets[row + 1] - offsets[row],
+                }}
+              >
+                <span className="table-cell table-index">{index}</span>
+                {shownColumns.map((column) => renderCell(index, column))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TableView;
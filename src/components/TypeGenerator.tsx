@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { JsonContainer } from "../utils/jsonTree";
+import { inferTypesInWorker, isAbortError } from "../utils/jsonWorkerClient";
+import { TYPE_OUTPUT_FORMATS, TypeOutputFormat } from "../utils/typeInference";
+
+// How long the Copy button shows that the text was copied
+const COPIED_NOTICE_MS = 1500;
+
+// Default type name for a document: its tab name without the extension
+const getRootName = (name: string) =>
+  name.replace(/\.[^.]+$/, "").trim() || "Root";
+
+// TypeGenerator component showing types inferred from a document
+const TypeGenerator = ({
+  docId,
+  name,
+  data,
+  onOpenSchema,
+  onClose,
+}: {
+  docId: string;
+  name: string;
+  data: JsonContainer;
+  // Opens a generated JSON Schema as a new tab
+  onOpenSchema: (text: string, rootName: string) => void;
+  onClose: () => void;
+}) => {
+  const [format, setFormat] = useState<TypeOutputFormat>("typescript");
+  const [rootName, setRootName] = useState<string>(() => getRootName(name));
+  // null while the output is being generated
+  const [output, setOutput] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  // Generate again whenever the document or the options change
+  useEffect(() => {
+    const controller = new AbortController();
+    setOutput(null);
+    setError(null);
+
+    inferTypesInWorker(docId, data, format, rootName.trim() || "Root", {
+      signal: controller.signal,
+    })
+      .then(setOutput)
+      .catch((inferError) => {
+        if (!isAbortError(inferError)) {
+          setError((inferError as Error).message);
+        }
+      });
+
+    return () => controller.abort();
+  }, [docId, data, format, rootName]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), COPIED_NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const copyOutput = () => {
+    if (output === null) return;
+    navigator.clipboard
+      .writeText(output)
+      .then(() => setCopied(true))
+      .catch((copyError) =>
+        setError("Could not copy: " + (copyError as Error).message)
+      );
+  };
+
+  return (
+    <div className="type-generator">
+      <div className="diff-toolbar">
+        <span className="diff-title" title={name}>
+          Types of {name}
+        </span>
+        <select
+          className="search-mode-select"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as TypeOutputFormat)}
+          title="Output format"
+        >
+          {TYPE_OUTPUT_FORMATS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          className="diff-ignored-keys"
+          value={rootName}
+          onChange={(e) => setRootName(e.target.value)}
+          placeholder="Root type name"
+          title="Name of the root type"
+        />
+        <button
+          onClick={copyOutput}
+          className="secondary-button"
+          disabled={output === null}
+        >
+          {copied ? "Copied" : "Copy"}
+        </button>
+        {format === "json-schema" && (
+          <button
+            onClick={() => output !== null && onOpenSchema(output, rootName)}
+            className="secondary-button"
+            disabled={output === null}
+          >
+            Open in New Tab
+          </button>
+        )}
+        <button onClick={onClose} className="secondary-button">
+          Close
+        </button>
+      </div>
+      {error && <div className="error-message">{error}</div>}
+      <pre className="generated-code">{output ?? "Generating…"}</pre>
+    </div>
+  );
+};
+
+export default TypeGenerator;
@@ -0,0 +1,67 @@
+import {
+  MAX_SCHEMA_ERRORS,
+  SchemaError,
+  ValidationResult,
+} from "../utils/jsonSchema";
+import { formatPath } from "../utils/pathFormat";
+
+// ValidationPanel component listing the schema errors of a document
+const ValidationPanel = ({
+  schemaName,
+  result,
+  onSelectError,
+  onDetach,
+}: {
+  schemaName: string;
+  // null while the document is being validated
+  result: ValidationResult | null;
+  onSelectError: (error: SchemaError) => void;
+  onDetach: () => void;
+}) => {
+  const errorCount = result?.ok ? result.errors.length : 0;
+  const summary = !result
+    ? "Validating…"
+    : !result.ok
+      ? result.error
+      : errorCount === 0
+        ? "Valid"
+        : errorCount >= MAX_SCHEMA_ERRORS
+          ? `First ${errorCount} errors`
+          : `${errorCount} error${errorCount === 1 ? "" : "s"}`;
+
+  return (
+    <div className="validation-panel">
+      <div className="validation-header">
+        <span className="validation-schema" title={schemaName}>
+          Schema: {schemaName}
+        </span>
+        <span
+          className={`validation-summary ${
+            result?.ok && errorCount === 0 ? "valid" : ""
+          } ${result && (!result.ok || errorCount > 0) ? "invalid" : ""}`}
+        >
+          {summary}
+        </span>
+        <button className="nav-button" onClick={onDetach} title="Detach schema">
+          ×
+        </button>
+      </div>
+      {result?.ok && errorCount > 0 && (
+        <ul className="validation-errors">
+          {result.errors.map((error, index) => (
+            <li key={index}>
+              <button onClick={() => onSelectError(error)} title="Show in tree">
+                <span className="validation-path">
+                  {formatPath(error.path, "jsonpath")}
+                </span>
+                <span className="validation-message">{error.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,36 @@
+import { isTauri } from "@tauri-apps/api/core";
+import {
+  BaseDirectory,
+  exists,
+  mkdir,
+  readTextFile,
+  writeTextFile,
+} from "@tauri-apps/plugin-fs";
+
+// Text kept between runs: a file in the app data directory of the desktop
+// app, or a localStorage entry in the browser build
+
+export const readAppData = async (
+  fileName: string,
+  storageKey: string
+): Promise<string | null> => {
+  if (!isTauri()) return localStorage.getItem(storageKey);
+
+  const found = await exists(fileName, { baseDir: BaseDirectory.AppData });
+  return found
+    ? await readTextFile(fileName, { baseDir: BaseDirectory.AppData })
+    : null;
+};
+
+export const writeAppData = async (
+  fileName: string,
+  storageKey: string,
+  text: string
+): Promise<void> => {
+  if (isTauri()) {
+    await mkdir("", { baseDir: BaseDirectory.AppData, recursive: true });
+    await writeTextFile(fileName, text, { baseDir: BaseDirectory.AppData });
+  } else {
+    localStorage.setItem(storageKey, text);
+  }
+};
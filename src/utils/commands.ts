@@ -0,0 +1,316 @@
+import { readAppData, writeAppData } from "./appData";
+
+// Every action that can be run from the command palette or bound to keys.
+// The handlers live in the components; this is the list and the bindings.
+
+export type CommandId =
+  | "palette.show"
+  | "keyBindings.show"
+  | "file.open"
+  | "file.save"
+  | "file.saveAs"
+  | "tab.new"
+  | "tab.close"
+  | "tab.next"
+  | "tab.previous"
+  | "edit.undo"
+  | "edit.redo"
+  | "edit.format"
+  | "view.toggle"
+  | "view.split"
+  | "view.splitDirection"
+  | "tree.collapseAll"
+  | "tree.expandAll"
+  | "tree.goToPath"
+  | "search.toggle"
+  | "search.nextMatch"
+  | "search.previousMatch";
+
+export type Command = {
+  id: CommandId;
+  category: string;
+  label: string;
+  // Bindings such as "Mod+Shift+P"; Mod is Cmd on macOS and Ctrl elsewhere
+  defaultBindings: string[];
+  // Not run while typing in an input or select, which handle the key
+  // themselves (e.g. undo in the search field)
+  yieldsToInputs?: boolean;
+};
+
+export const COMMANDS: Command[] = [
+  {
+    id: "palette.show",
+    category: "View",
+    label: "Command Palette",
+    defaultBindings: ["Mod+Shift+P"],
+  },
+  {
+    id: "keyBindings.show",
+    category: "View",
+    label: "Keyboard Shortcuts",
+    defaultBindings: [],
+  },
+  {
+    id: "file.open",
+    category: "File",
+    label: "Open File",
+    defaultBindings: ["Mod+O"],
+  },
+  {
+    id: "file.save",
+    category: "File",
+    label: "Save",
+    defaultBindings: ["Mod+S"],
+  },
+  {
+    id: "file.saveAs",
+    category: "File",
+    label: "Save As",
+    defaultBindings: ["Mod+Shift+S"],
+  },
+  {
+    id: "tab.new",
+    category: "Tab",
+    label: "New Tab",
+    defaultBindings: ["Mod+T"],
+  },
+  {
+    id: "tab.close",
+    category: "Tab",
+    label: "Close Tab",
+    defaultBindings: ["Mod+W"],
+  },
+  {
+    id: "tab.next",
+    category: "Tab",
+    label: "Next Tab",
+    defaultBindings: ["Mod+Alt+ArrowRight"],
+  },
+  {
+    id: "tab.previous",
+    category: "Tab",
+    label: "Previous Tab",
+    defaultBindings: ["Mod+Alt+ArrowLeft"],
+  },
+  {
+    id: "edit.undo",
+    category: "Edit",
+    label: "Undo",
+    defaultBindings: ["Mod+Z"],
+    yieldsToInputs: true,
+  },
+  {
+    id: "edit.redo",
+    category: "Edit",
+    label: "Redo",
+    defaultBindings: ["Mod+Shift+Z", "Mod+Y"],
+    yieldsToInputs: true,
+  },
+  {
+    id: "edit.format",
+    category: "Edit",
+    label: "Format Document",
+    defaultBindings: ["Mod+Shift+F"],
+  },
+  {
+    id: "view.toggle",
+    category: "View",
+    label: "Toggle Preview / Edit",
+    defaultBindings: ["Mod+E"],
+  },
+  {
+    id: "view.split",
+    category: "View",
+    label: "Toggle Split View",
+    defaultBindings: ["Mod+\\"],
+  },
+  {
+    id: "view.splitDirection",
+    category: "View",
+    label: "Toggle Split Direction",
+    defaultBindings: [],
+  },
+  {
+    id: "tree.collapseAll",
+    category: "Tree",
+    label: "Collapse All",
+    defaultBindings: [],
+  },
+  {
+    id: "tree.expandAll",
+    category: "Tree",
+    label: "Expand All",
+    defaultBindings: [],
+  },
+  {
+    id: "tree.goToPath",
+    category: "Tree",
+    label: "Go to Path",
+    defaultBindings: ["Mod+G"],
+  },
+  {
+    id: "search.toggle",
+    category: "Search",
+    label: "Toggle Search",
+    defaultBindings: ["Mod+F"],
+  },
+  {
+    id: "search.nextMatch",
+    category: "Search",
+    label: "Next Match",
+    defaultBindings: ["F3"],
+  },
+  {
+    id: "search.previousMatch",
+    category: "Search",
+    label: "Previous Match",
+    defaultBindings: ["Shift+F3"],
+  },
+];
+
+// Bindings the user changed, by command; an empty list unbinds a command
+export type KeyBindingOverrides = Partial<Record<CommandId, string[]>>;
+
+const KEY_BINDINGS_FILE = "keybindings.json";
+// localStorage key used by the browser build
+const KEY_BINDINGS_STORAGE_KEY = "json-lens-keybindings";
+
+const IS_MAC =
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+const MODIFIER_KEYS = new Set(["Control", "Meta", "Alt", "Shift", "AltGraph"]);
+
+export const getCommandTitle = (command: Command) =>
+  `${command.category}: ${command.label}`;
+
+export const getBindings = (
+  overrides: KeyBindingOverrides,
+  id: CommandId
+): string[] =>
+  overrides[id] ??
+  COMMANDS.find((command) => command.id === id)!.defaultBindings;
+
+// The binding a key press stands for, or null for a lone modifier. When
+// Alt or Shift turn a letter or digit into another character, the physical
+// key is used instead so that the binding stays the same.
+export const getEventBinding = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+
+  const key = /^[a-z0-9]$/i.test(e.key)
+    ? e.key.toUpperCase()
+    : /^(Key|Digit)[A-Z0-9]$/.test(e.code)
+      ? e.code.slice(-1)
+      : e.key === " "
+        ? "Space"
+        : e.key.length === 1
+          ? e.key.toUpperCase()
+          : e.key;
+  return [
+    e.ctrlKey || e.metaKey ? "Mod" : "",
+    e.altKey ? "Alt" : "",
+    e.shiftKey ? "Shift" : "",
+    key,
+  ]
+    .filter(Boolean)
+    .join("+");
+};
+
+// A binding as shown to the user: Ctrl+Shift+P, or Cmd+Shift+P on macOS
+export const formatBinding = (binding: string): string =>
+  binding.replace(/^Mod\+/, IS_MAC ? "Cmd+" : "Ctrl+");
+
+// Give a command a binding, taking it away from any other command
+export const assignBinding = (
+  overrides: KeyBindingOverrides,
+  id: CommandId,
+  binding: string
+): KeyBindingOverrides => {
+  const next: KeyBindingOverrides = { ...overrides, [id]: [binding] };
+  COMMANDS.forEach((command) => {
+    const bindings = getBindings(overrides, command.id);
+    if (command.id !== id && bindings.includes(binding)) {
+      next[command.id] = bindings.filter((other) => other !== binding);
+    }
+  });
+  return next;
+};
+
+// Commands by binding, for dispatching key presses
+export const createBindingMap = (
+  overrides: KeyBindingOverrides
+): Map<string, Command> => {
+  const map = new Map<string, Command>();
+  COMMANDS.forEach((command) =>
+    getBindings(overrides, command.id).forEach((binding) => {
+      if (!map.has(binding)) map.set(binding, command);
+    })
+  );
+  return map;
+};
+
+// Score how well a query matches text when its characters appear in order,
+// favouring the starts of words and runs of consecutive characters. Returns
+// the positions of the matched characters for highlighting.
+export const fuzzyMatch = (
+  query: string,
+  text: string
+): { score: number; indexes: number[] } | null => {
+  const needle = query.replace(/\s+/g, "").toLowerCase();
+  const haystack = text.toLowerCase();
+  const indexes: number[] = [];
+  let score = 0;
+  let position = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === 0 || /[\s:/]/.test(text[index - 1])) score += 5;
+    if (indexes.length > 0 && index === indexes[indexes.length - 1] + 1) {
+      score += 3;
+    }
+    indexes.push(index);
+    position = index + 1;
+  }
+  return { score, indexes };
+};
+
+const isKeyBindingOverrides = (value: unknown): value is KeyBindingOverrides =>
+  value !== null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.values(value).every(
+    (bindings) =>
+      Array.isArray(bindings) &&
+      bindings.every((binding) => typeof binding === "string")
+  );
+
+// Read the user's bindings; unreadable or missing settings mean none
+export const loadKeyBindings = async (): Promise<KeyBindingOverrides> => {
+  const text = await readAppData(KEY_BINDINGS_FILE, KEY_BINDINGS_STORAGE_KEY);
+  if (!text) return {};
+
+  try {
+    const overrides: unknown = JSON.parse(text);
+    if (!isKeyBindingOverrides(overrides)) return {};
+    // Commands that no longer exist are dropped
+    return Object.fromEntries(
+      Object.entries(overrides).filter(([id]) =>
+        COMMANDS.some((command) => command.id === id)
+      )
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const saveKeyBindings = (
+  overrides: KeyBindingOverrides
+): Promise<void> =>
+  writeAppData(
+    KEY_BINDINGS_FILE,
+    KEY_BINDINGS_STORAGE_KEY,
+    JSON.stringify(overrides, null, 2)
+  );
@@ -0,0 +1,79 @@
+import { watch, WatchEvent } from "@tauri-apps/plugin-fs";
+
+// Changes this close together are reported once, e.g. a file that is
+// written in several steps
+const WATCH_DELAY_MS = 200;
+// A watch that can't be set up is tried again this often, e.g. while a file
+// that is saved by replacing it is briefly missing
+const RETRY_DELAY_MS = 500;
+// Failed tries before the failure is reported; retries continue less often
+// so that a file that comes back is watched again
+const REPORTED_RETRIES = 10;
+const SLOW_RETRY_DELAY_MS = 5000;
+
+// Reading a file reports an access, which must not count as a change
+const isAccess = (event: WatchEvent) =>
+  typeof event.type === "object" && "access" in event.type;
+
+// The file was removed or renamed away, so the watch on it is gone as well
+const isReplaced = (event: WatchEvent) =>
+  typeof event.type === "object" &&
+  ("remove" in event.type ||
+    ("modify" in event.type && event.type.modify.kind === "rename"));
+
+// Call onChange whenever a file is written, replaced or removed. Only the
+// file itself may be accessed, not its directory, so one watch is kept on
+// the file and set up again once the file was replaced; onChange is then
+// called again for changes made while nothing was watched. onError reports
+// a watch that keeps failing. Returns a function that stops watching.
+export const watchFile = (
+  path: string,
+  onChange: () => void,
+  onError: (error: string) => void
+): (() => void) => {
+  let stopped = false;
+  let unwatch: (() => void) | null = null;
+  let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+  // Counts the watches set up, so that a replaced one is ignored
+  let generation = 0;
+
+  const start = (failures: number, caughtUp: boolean) => {
+    const current = ++generation;
+    watch(
+      path,
+      (event) => {
+        if (stopped || current !== generation || isAccess(event)) return;
+        onChange();
+        if (isReplaced(event)) {
+          unwatch?.();
+          unwatch = null;
+          start(0, false);
+        }
+      },
+      { delayMs: WATCH_DELAY_MS }
+    )
+      .then((stop) => {
+        if (stopped || current !== generation) {
+          stop();
+          return;
+        }
+        unwatch = stop;
+        if (!caughtUp) onChange();
+      })
+      .catch((watchError) => {
+        if (stopped || current !== generation) return;
+        if (failures + 1 === REPORTED_RETRIES) onError(String(watchError));
+        retryTimeout = setTimeout(
+          () => start(failures + 1, false),
+          failures + 1 < REPORTED_RETRIES ? RETRY_DELAY_MS : SLOW_RETRY_DELAY_MS
+        );
+      });
+  };
+  start(0, true);
+
+  return () => {
+    stopped = true;
+    clearTimeout(retryTimeout);
+    unwatch?.();
+  };
+};
@@ -0,0 +1,299 @@
+import { parse as parseToml, stringify as stringifyToml } from "smol-toml";
+import { parseAllDocuments, stringify as stringifyYaml } from "yaml";
+import { isPlainObject } from "./query/common";
+
+// Conversion between JSON and the other formats documents arrive in or are
+// handed off as. Imports produce JSON text that is then parsed like any
+// other document.
+
+export type ImportFormat = "yaml" | "toml" | "xml";
+export type ExportFormat = ImportFormat | "csv";
+
+export const IMPORT_FORMATS: {
+  value: ImportFormat;
+  label: string;
+  extensions: string[];
+}[] = [
+  { value: "yaml", label: "YAML", extensions: ["yaml", "yml"] },
+  { value: "toml", label: "TOML", extensions: ["toml"] },
+  { value: "xml", label: "XML", extensions: ["xml"] },
+];
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extensions: string[];
+}[] = [...IMPORT_FORMATS, { value: "csv", label: "CSV", extensions: ["csv"] }];
+
+export type ConversionResult =
+  { ok: true; text: string } | { ok: false; error: string };
+
+// Prefixes of attribute and text properties for elements converted from XML
+const XML_ATTRIBUTE_PREFIX = "@";
+const XML_TEXT_KEY = "#text";
+
+// The import format of a file by its name
+export const getImportFormatForPath = (path: string): ImportFormat | null => {
+  const extension = path.match(/\.(\w+)$/)?.[1].toLowerCase();
+  return (
+    IMPORT_FORMATS.find(({ extensions }) =>
+      extensions.includes(extension ?? "")
+    )?.value ?? null
+  );
+};
+
+// Guess the format of pasted text that isn't JSON from its first line
+export const detectImportFormat = (text: string): ImportFormat | null => {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("<")) return "xml";
+
+  const firstLine = trimmed
+    .split("\n")
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith("#"));
+  if (!firstLine) return null;
+  if (/^\[\[?[\w.\-" ]+\]\]?$/.test(firstLine)) return "toml";
+  if (/^[\w.\-"]+\s*=/.test(firstLine)) return "toml";
+  if (firstLine === "---" || /^- /.test(firstLine)) return "yaml";
+  if (/^[\w"' .-]+:(\s|$)/.test(firstLine)) return "yaml";
+  return null;
+};
+
+// An element as an object: attributes as "@name", repeated child elements
+// as arrays and text as "#text". Elements with only text become a string,
+// empty ones null.
+const convertElement = (element: Element): unknown => {
+  const result: Record<string, unknown> = {};
+  Array.from(element.attributes).forEach((attribute) => {
+    result[XML_ATTRIBUTE_PREFIX + attribute.name] = attribute.value;
+  });
+
+  let text = "";
+  let hasChildElements = false;
+  element.childNodes.forEach((node) => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      hasChildElements = true;
+      const child = node as Element;
+      const value = convertElement(child);
+      const existing = result[child.tagName];
+      if (existing === undefined) {
+        result[child.tagName] = value;
+      } else if (Array.isArray(existing)) {
+        existing.push(value);
+      } else {
+        result[child.tagName] = [existing, value];
+      }
+    } else if (
+      node.nodeType === Node.TEXT_NODE ||
+      node.nodeType === Node.CDATA_SECTION_NODE
+    ) {
+      text += node.nodeValue ?? "";
+    }
+  });
+
+  const trimmedText = text.trim();
+  if (!hasChildElements && element.attributes.length === 0) {
+    return trimmedText || null;
+  }
+  if (trimmedText) result[XML_TEXT_KEY] = trimmedText;
+  return result;
+};
+
+const xmlToJson = (text: string): unknown => {
+  const xml = new DOMParser().parseFromString(text, "application/xml");
+  const parserError = xml.getElementsByTagName("parsererror")[0];
+  if (parserError) {
+    throw new Error(parserError.textContent?.trim() || "Invalid XML");
+  }
+  const root = xml.documentElement;
+  return { [root.tagName]: convertElement(root) };
+};
+
+// Several YAML documents in one stream become an array
+const yamlToJson = (text: string): unknown => {
+  const documents = parseAllDocuments(text);
+  if (!Array.isArray(documents) || documents.length === 0) {
+    throw new Error("there is no document in the text");
+  }
+
+  const values = documents.map((document) => {
+    const [firstError] = document.errors;
+    if (firstError) throw firstError;
+    return document.toJS();
+  });
+  return values.length === 1 ? values[0] : values;
+};
+
+// Convert a YAML, TOML or XML document to JSON text
+export const importDocument = (
+  text: string,
+  format: ImportFormat
+): ConversionResult => {
+  try {
+    const value =
+      format === "yaml"
+        ? yamlToJson(text)
+        : format === "toml"
+          ? parseToml(text)
+          : xmlToJson(text);
+    // Dates and other values without a JSON type become strings
+    return { ok: true, text: JSON.stringify(value, null, 2) };
+  } catch (conversionError) {
+    return {
+      ok: false,
+      error: `Invalid ${format.toUpperCase()}: ${(conversionError as Error).message}`,
+    };
+  }
+};
+
+const escapeXml = (text: string) =>
+  text.replace(
+    /[<>&"]/g,
+    (char) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[char]!
+  );
+
+// Keys that aren't valid element names get their invalid characters replaced
+const toXmlName = (key: string) => {
+  const name = key.replace(/[^\w.-]/g, "_");
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+};
+
+// The reverse of convertElement: arrays repeat the element, "@" properties
+// become attributes and "#text" the text
+const writeElement = (name: string, value: unknown, indent: string): string => {
+  const tag = toXmlName(name);
+  if (Array.isArray(value)) {
+    return value.map((item) => writeElement(name, item, indent)).join("");
+  }
+  if (value === null || value === undefined) return `${indent}<${tag}/>\n`;
+  if (!isPlainObject(value)) {
+    return `${indent}<${tag}>${escapeXml(String(value))}</${tag}>\n`;
+  }
+
+  let attributes = "";
+  let text = "";
+  let children = "";
+  Object.entries(value).forEach(([key, child]) => {
+    if (key.startsWith(XML_ATTRIBUTE_PREFIX) && !isPlainObject(child)) {
+      attributes += ` ${toXmlName(key.slice(1))}="${escapeXml(String(child ?? ""))}"`;
+    } else if (key === XML_TEXT_KEY) {
+      text = escapeXml(String(child ?? ""));
+    } else {
+      children += writeElement(key, child, indent + "  ");
+    }
+  });
+
+  if (!children) {
+    return text
+      ? `${indent}<${tag}${attributes}>${text}</${tag}>\n`
+      : `${indent}<${tag}${attributes}/>\n`;
+  }
+  return `${indent}<${tag}${attributes}>\n${
+    text ? `${indent}  ${text}\n` : ""
+  }${children}${indent}</${tag}>\n`;
+};
+
+// An object with a single element property keeps it as the root element;
+// anything else is wrapped in <root>, with array items as <item>
+const jsonToXml = (data: unknown) => {
+  const keys = isPlainObject(data) ? Object.keys(data) : [];
+  const body =
+    keys.length === 1 &&
+    !keys[0].startsWith(XML_ATTRIBUTE_PREFIX) &&
+    keys[0] !== XML_TEXT_KEY &&
+    !Array.isArray((data as Record<string, unknown>)[keys[0]])
+      ? writeElement(keys[0], (data as Record<string, unknown>)[keys[0]], "")
+      : writeElement("root", Array.isArray(data) ? { item: data } : data, "");
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+};
+
+// Flatten nested objects and arrays into dotted column names
+const flattenRow = (
+  value: unknown,
+  prefix: string,
+  row: Map<string, unknown>
+) => {
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : isPlainObject(value)
+      ? Object.entries(value)
+      : null;
+
+  if (!entries || (entries.length === 0 && prefix)) {
+    row.set(prefix || "value", entries ? JSON.stringify(value) : value);
+    return;
+  }
+  entries.forEach(([key, child]) =>
+    flattenRow(child, prefix ? `${prefix}.${key}` : key, row)
+  );
+};
+
+const toCsvField = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per item of an array (or one for any other document), with a
+// column for every leaf value
+const jsonToCsv = (data: unknown) => {
+  const rows = (Array.isArray(data) ? data : [data]).map((item) => {
+    const row = new Map<string, unknown>();
+    flattenRow(item, "", row);
+    return row;
+  });
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach((row) =>
+    row.forEach((_, column) => {
+      if (!seen.has(column)) {
+        seen.add(column);
+        columns.push(column);
+      }
+    })
+  );
+
+  return [columns, ...rows.map((row) => columns.map((c) => row.get(c)))]
+    .map((fields) => fields.map(toCsvField).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+};
+
+// TOML has no null. Properties set to null are left out when writing, but
+// arrays with a null in them are rejected, so those items are left out too.
+const withoutNullItems = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.filter((item) => item !== null).map(withoutNullItems)
+    : isPlainObject(value)
+      ? Object.fromEntries(
+          Object.entries(value).map(([key, child]) => [
+            key,
+            withoutNullItems(child),
+          ])
+        )
+      : value;
+
+// Write a document as YAML, TOML, XML or CSV. TOML has no null, so nulls
+// are left out.
+export const exportDocument = (
+  data: unknown,
+  format: ExportFormat
+): ConversionResult => {
+  try {
+    switch (format) {
+      case "yaml":
+        return { ok: true, text: stringifyYaml(data) };
+      case "toml":
+        if (!isPlainObject(data)) {
+          return { ok: false, error: "Only objects can be written as TOML" };
+        }
+        return { ok: true, text: stringifyToml(withoutNullItems(data)) };
+      case "xml":
+        return { ok: true, text: jsonToXml(data) };
+      case "csv":
+        return { ok: true, text: jsonToCsv(data) };
+    }
+  } catch (conversionError) {
+    return { ok: false, error: (conversionError as Error).message };
+  }
+};
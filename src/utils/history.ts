@@ -0,0 +1,116 @@
+import { ParseDiagnostic } from "./jsonParser";
+import { JsonContainer } from "./jsonTree";
+
+// The parts of a tab that undo and redo restore
+export type DocumentSnapshot = {
+  jsonInput: string;
+  parsedJson: JsonContainer | null;
+  diagnostics: ParseDiagnostic[];
+};
+
+// What caused a change. Consecutive typing is merged into one undo step.
+export type ChangeKind =
+  "typing" | "format" | "clear" | "tree" | "repair" | "import" | "reload";
+
+export type DocumentHistory = {
+  undoStack: DocumentSnapshot[];
+  redoStack: DocumentSnapshot[];
+  lastKind: ChangeKind | null;
+  lastChangeAt: number;
+};
+
+export const EMPTY_HISTORY: DocumentHistory = {
+  undoStack: [],
+  redoStack: [],
+  lastKind: null,
+  lastChangeAt: 0,
+};
+
+// Each stack keeps at most this many snapshots...
+const HISTORY_MAX_ENTRIES = 100;
+// ...and at most this much text and parsed values, so large documents keep
+// fewer steps
+const HISTORY_MAX_CHARS = 20_000_000;
+// Typing within this long of the previous keystroke joins the same step
+const TYPING_MERGE_MS = 1000;
+
+// The cost of a snapshot in characters. A parsed value takes at least about
+// as much memory as its text, so it counts once more.
+const snapshotSize = (snapshot: DocumentSnapshot) =>
+  snapshot.jsonInput.length * (snapshot.parsedJson ? 2 : 1);
+
+// Keep the newest snapshots that fit within the limits, and always the
+// newest one so that even the largest documents have one step to undo
+const trimStack = (stack: DocumentSnapshot[]): DocumentSnapshot[] => {
+  let totalSize = 0;
+  let start = stack.length;
+
+  while (start > 0 && stack.length - start < HISTORY_MAX_ENTRIES) {
+    const size = snapshotSize(stack[start - 1]);
+    if (start < stack.length && totalSize + size > HISTORY_MAX_CHARS) break;
+    totalSize += size;
+    start--;
+  }
+
+  return stack.slice(start);
+};
+
+// Record the state before a change so it can be undone
+export const recordChange = (
+  history: DocumentHistory,
+  before: DocumentSnapshot,
+  kind: ChangeKind,
+  now = Date.now()
+): DocumentHistory => {
+  const merge =
+    kind === "typing" &&
+    history.lastKind === "typing" &&
+    now - history.lastChangeAt < TYPING_MERGE_MS;
+
+  return {
+    undoStack: merge
+      ? history.undoStack
+      : trimStack([...history.undoStack, before]),
+    redoStack: [],
+    lastKind: kind,
+    lastChangeAt: now,
+  };
+};
+
+// Step back to the previous snapshot, or null when there is nothing to undo
+export const undoChange = (
+  history: DocumentHistory,
+  current: DocumentSnapshot
+): { history: DocumentHistory; snapshot: DocumentSnapshot } | null => {
+  const snapshot = history.undoStack[history.undoStack.length - 1];
+  if (!snapshot) return null;
+
+  return {
+    snapshot,
+    history: {
+      undoStack: history.undoStack.slice(0, -1),
+      redoStack: trimStack([...history.redoStack, current]),
+      lastKind: null,
+      lastChangeAt: 0,
+    },
+  };
+};
+
+// Reapply the last undone snapshot, or null when there is nothing to redo
+export const redoChange = (
+  history: DocumentHistory,
+  current: DocumentSnapshot
+): { history: DocumentHistory; snapshot: DocumentSnapshot } | null => {
+  const snapshot = history.redoStack[history.redoStack.length - 1];
+  if (!snapshot) return null;
+
+  return {
+    snapshot,
+    history: {
+      undoStack: trimStack([...history.undoStack, current]),
+      redoStack: history.redoStack.slice(0, -1),
+      lastKind: null,
+      lastChangeAt: 0,
+    },
+  };
+};
@@ -0,0 +1,167 @@
+import {
+  MAX_DIAGNOSTICS,
+  ParseDiagnostic,
+  parseJsonTolerant,
+} from "./jsonParser";
+
+// Dialects of JSON a document can be written in. NDJSON documents hold one
+// value per line and are shown as an array of those values.
+
+export type JsonDialect = "json" | "jsonc" | "json5" | "ndjson";
+
+export const JSON_DIALECTS: {
+  value: JsonDialect;
+  label: string;
+  extensions: string[];
+}[] = [
+  { value: "json", label: "JSON", extensions: ["json"] },
+  { value: "jsonc", label: "JSONC", extensions: ["jsonc"] },
+  { value: "json5", label: "JSON5", extensions: ["json5"] },
+  { value: "ndjson", label: "NDJSON", extensions: ["ndjson", "jsonl"] },
+];
+
+export const DIALECT_EXTENSIONS = JSON_DIALECTS.flatMap(
+  ({ extensions }) => extensions
+);
+
+// .json files that are known to allow comments
+const JSONC_FILE_NAMES =
+  /(^|[/\\])(tsconfig(\.[\w-]+)?\.json|jsconfig\.json|\.vscode[/\\][\w-]+\.json)$/;
+
+export type DocumentParseResult = {
+  dialect: JsonDialect;
+  // undefined when nothing could be recovered
+  value: unknown;
+  diagnostics: ParseDiagnostic[];
+};
+
+// The dialect of a file by its name, or null when the name doesn't tell
+export const getDialectForPath = (path: string): JsonDialect | null => {
+  if (JSONC_FILE_NAMES.test(path)) return "jsonc";
+  const extension = path.match(/\.(\w+)$/)?.[1].toLowerCase();
+  if (!extension || extension === "json") return null;
+  return (
+    JSON_DIALECTS.find(({ extensions }) => extensions.includes(extension))
+      ?.value ?? null
+  );
+};
+
+// File name extension for saving a document of the dialect
+export const getDialectExtension = (dialect: JsonDialect) =>
+  JSON_DIALECTS.find(({ value }) => value === dialect)!.extensions[0];
+
+// Start and end offsets of the lines of a text
+const splitLines = (text: string): { start: number; end: number }[] => {
+  const lines = [];
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf("\n", start);
+    const end = newline === -1 ? text.length : newline;
+    lines.push({ start, end });
+    start = end + 1;
+  }
+  return lines;
+};
+
+const isBlank = (text: string, start: number, end: number) =>
+  !/\S/.test(text.slice(start, end));
+
+// 1-based line numbers of the values of an NDJSON document, in order
+export const getNdjsonLineNumbers = (text: string): number[] =>
+  splitLines(text).flatMap(({ start, end }, index) =>
+    isBlank(text, start, end) ? [] : [index + 1]
+  );
+
+// Parse each non-blank line as a value. Problems are reported at their
+// position in the whole text; a line that can't be recovered becomes null.
+const parseNdjson = (
+  text: string
+): Omit<DocumentParseResult, "dialect"> & { value: unknown[] } => {
+  const value: unknown[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+
+  splitLines(text).forEach(({ start, end }, index) => {
+    if (isBlank(text, start, end)) return;
+    const line = text.slice(start, end);
+    try {
+      value.push(JSON.parse(line));
+      return;
+    } catch {
+      // Explained by the tolerant parser below
+    }
+
+    const recovered = parseJsonTolerant(line);
+    value.push(recovered.value ?? null);
+    recovered.diagnostics.forEach((diagnostic) => {
+      if (diagnostics.length >= MAX_DIAGNOSTICS) return;
+      diagnostics.push({
+        ...diagnostic,
+        offset: diagnostic.offset + start,
+        line: index + 1,
+        repair: diagnostic.repair && {
+          ...diagnostic.repair,
+          edits: diagnostic.repair.edits.map((edit) => ({
+            ...edit,
+            offset: edit.offset + start,
+          })),
+        },
+      });
+    });
+  });
+
+  return { value, diagnostics };
+};
+
+// Several lines that each hold a complete value
+const looksLikeNdjson = (text: string) => {
+  const lines = splitLines(text)
+    .filter(({ start, end }) => !isBlank(text, start, end))
+    .slice(0, 2);
+  if (lines.length < 2) return false;
+  try {
+    lines.forEach(({ start, end }) => JSON.parse(text.slice(start, end)));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Parse a document in the given dialect. Without one the dialect is
+// detected: the strictest one the text is valid in, or JSON when it isn't
+// valid in any.
+export const parseDocument = (
+  text: string,
+  dialect: JsonDialect | null
+): DocumentParseResult => {
+  if (dialect === "ndjson") return { dialect, ...parseNdjson(text) };
+
+  // Valid JSON is valid in the other dialects too, and JSON.parse is much
+  // faster than the tolerant parser
+  try {
+    return {
+      dialect: dialect ?? "json",
+      value: JSON.parse(text),
+      diagnostics: [],
+    };
+  } catch {
+    // Parsed again below
+  }
+
+  if (dialect) return { dialect, ...parseJsonTolerant(text, dialect) };
+
+  if (looksLikeNdjson(text)) {
+    return { dialect: "ndjson", ...parseNdjson(text) };
+  }
+  for (const syntax of ["jsonc", "json5"] as const) {
+    const result = parseJsonTolerant(text, syntax);
+    if (result.diagnostics.length === 0) return { dialect: syntax, ...result };
+  }
+  return { dialect: "json", ...parseJsonTolerant(text) };
+};
+
+// Write a document in the given dialect. Comments and other syntax of the
+// original text can't be kept.
+export const serializeDocument = (data: unknown, dialect: JsonDialect) =>
+  dialect === "ndjson" && Array.isArray(data)
+    ? data.map((item) => JSON.stringify(item) + "\n").join("")
+    : JSON.stringify(data, null, 2);
@@ -0,0 +1,312 @@
+import { isJsonContainer } from "./jsonTree";
+import { hasOwn, isPlainObject, PathSegment } from "./query/common";
+
+// "changed" nodes were replaced by a different value, "modified" nodes are
+// containers with differences somewhere inside
+export type DiffStatus =
+  "unchanged" | "added" | "removed" | "changed" | "modified";
+
+export type DiffOptions = {
+  // Match array items by value wherever they are in the array
+  ignoreArrayOrder: boolean;
+  // Object keys left out of the comparison at any depth
+  ignoredKeys: string[];
+};
+
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = {
+  ignoreArrayOrder: false,
+  ignoredKeys: [],
+};
+
+// A node of the merged document. Values aren't included, they are read from
+// the two documents through the paths; leftPath is null for added nodes and
+// rightPath for removed ones.
+export type DiffNode = {
+  status: DiffStatus;
+  leftPath: PathSegment[] | null;
+  rightPath: PathSegment[] | null;
+  // Only set on modified containers
+  children?: DiffNode[];
+};
+
+export type DiffResult = {
+  root: DiffNode;
+  // Number of added, removed and changed nodes
+  differenceCount: number;
+};
+
+// Arrays with more item pairs than this are compared by position instead
+// of aligning equal items
+const ALIGNMENT_LIMIT = 4_000_000;
+
+// A string that is equal for values the options consider equal: object keys
+// sorted, ignored keys dropped and, if asked, array items sorted
+const canonicalize = (value: unknown, options: DiffOptions): string => {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => canonicalize(item, options));
+    if (options.ignoreArrayOrder) items.sort();
+    return `[${items.join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => !options.ignoredKeys.includes(key))
+      .sort()
+      .map(
+        (key) => `${JSON.stringify(key)}:${canonicalize(value[key], options)}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+// Indexes of equal items in both arrays, in order (longest common
+// subsequence)
+const alignItems = (left: string[], right: string[]): [number, number][] => {
+  const rows = left.length + 1;
+  const columns = right.length + 1;
+  const lengths = new Uint32Array(rows * columns);
+
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] =
+        left[i] === right[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(
+              lengths[(i + 1) * columns + j],
+              lengths[i * columns + j + 1]
+            );
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+// Compare two JSON documents, producing a tree of the differences
+export const diffJson = (
+  left: unknown,
+  right: unknown,
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS
+): DiffResult => {
+  let differenceCount = 0;
+
+  const leaf = (
+    status: "added" | "removed",
+    leftPath: PathSegment[] | null,
+    rightPath: PathSegment[] | null
+  ): DiffNode => {
+    differenceCount++;
+    return { status, leftPath, rightPath };
+  };
+
+  // A container is unchanged when none of its children changed
+  const container = (
+    leftPath: PathSegment[],
+    rightPath: PathSegment[],
+    children: DiffNode[]
+  ): DiffNode => {
+    return children.some((child) => child.status !== "unchanged")
+      ? { status: "modified", leftPath, rightPath, children }
+      : { status: "unchanged", leftPath, rightPath };
+  };
+
+  // Pair up items that are left over between two aligned items: the first
+  // removed item with the first added one and so on
+  const diffGap = (
+    nodes: DiffNode[],
+    leftValue: unknown[],
+    rightValue: unknown[],
+    leftPath: PathSegment[],
+    rightPath: PathSegment[],
+    leftIndexes: number[],
+    rightIndexes: number[]
+  ) => {
+    const paired = Math.min(leftIndexes.length, rightIndexes.length);
+    for (let n = 0; n < paired; n++) {
+      nodes.push(
+        diff(
+          leftValue[leftIndexes[n]],
+          rightValue[rightIndexes[n]],
+          [...leftPath, leftIndexes[n]],
+          [...rightPath, rightIndexes[n]]
+        )
+      );
+    }
+    leftIndexes
+      .slice(paired)
+      .forEach((index) =>
+        nodes.push(leaf("removed", [...leftPath, index], null))
+      );
+    rightIndexes
+      .slice(paired)
+      .forEach((index) =>
+        nodes.push(leaf("added", null, [...rightPath, index]))
+      );
+  };
+
+  const diffArrays = (
+    leftValue: unknown[],
+    rightValue: unknown[],
+    leftPath: PathSegment[],
+    rightPath: PathSegment[]
+  ): DiffNode[] => {
+    const leftKeys = leftValue.map((item) => canonicalize(item, options));
+    const rightKeys = rightValue.map((item) => canonicalize(item, options));
+    const range = (start: number, end: number) =>
+      Array.from({ length: Math.max(end - start, 0) }, (_, n) => start + n);
+
+    // Equal items match wherever they are; the rest are paired in order
+    if (options.ignoreArrayOrder) {
+      const available = new Map<string, number[]>();
+      rightKeys.forEach((key, index) => {
+        const indexes = available.get(key);
+        if (indexes) {
+          indexes.push(index);
+        } else {
+          available.set(key, [index]);
+        }
+      });
+
+      const nodes: DiffNode[] = [];
+      const unmatchedLeft: number[] = [];
+      leftKeys.forEach((key, index) => {
+        const rightIndex = available.get(key)?.shift();
+        if (rightIndex === undefined) {
+          unmatchedLeft.push(index);
+        } else {
+          nodes.push({
+            status: "unchanged",
+            leftPath: [...leftPath, index],
+            rightPath: [...rightPath, rightIndex],
+          });
+        }
+      });
+      const unmatchedRight = [...available.values()]
+        .flat()
+        .sort((a, b) => a - b);
+
+      diffGap(
+        nodes,
+        leftValue,
+        rightValue,
+        leftPath,
+        rightPath,
+        unmatchedLeft,
+        unmatchedRight
+      );
+
+      // Keep the order of the left document, with added items last
+      const leftIndex = (node: DiffNode) =>
+        node.leftPath
+          ? (node.leftPath[node.leftPath.length - 1] as number)
+          : Number.POSITIVE_INFINITY;
+      return nodes.sort((a, b) => leftIndex(a) - leftIndex(b));
+    }
+
+    // Align equal items, then compare the items between them
+    const anchors =
+      leftValue.length * rightValue.length <= ALIGNMENT_LIMIT
+        ? alignItems(leftKeys, rightKeys)
+        : [];
+    const nodes: DiffNode[] = [];
+    let leftStart = 0;
+    let rightStart = 0;
+
+    [...anchors, [leftValue.length, rightValue.length]].forEach(
+      ([leftIndex, rightIndex], n) => {
+        diffGap(
+          nodes,
+          leftValue,
+          rightValue,
+          leftPath,
+          rightPath,
+          range(leftStart, leftIndex),
+          range(rightStart, rightIndex)
+        );
+        if (n < anchors.length) {
+          nodes.push({
+            status: "unchanged",
+            leftPath: [...leftPath, leftIndex],
+            rightPath: [...rightPath, rightIndex],
+          });
+        }
+        leftStart = leftIndex + 1;
+        rightStart = rightIndex + 1;
+      }
+    );
+
+    return nodes;
+  };
+
+  const diffObjects = (
+    leftValue: Record<string, unknown>,
+    rightValue: Record<string, unknown>,
+    leftPath: PathSegment[],
+    rightPath: PathSegment[]
+  ): DiffNode[] => {
+    const keys = [
+      ...Object.keys(leftValue),
+      ...Object.keys(rightValue).filter((key) => !hasOwn(leftValue, key)),
+    ].filter((key) => !options.ignoredKeys.includes(key));
+
+    return keys.map((key) => {
+      const inLeft = hasOwn(leftValue, key);
+      const inRight = hasOwn(rightValue, key);
+      if (!inRight) return leaf("removed", [...leftPath, key], null);
+      if (!inLeft) return leaf("added", null, [...rightPath, key]);
+      return diff(
+        leftValue[key],
+        rightValue[key],
+        [...leftPath, key],
+        [...rightPath, key]
+      );
+    });
+  };
+
+  const diff = (
+    leftValue: unknown,
+    rightValue: unknown,
+    leftPath: PathSegment[],
+    rightPath: PathSegment[]
+  ): DiffNode => {
+    if (Array.isArray(leftValue) && Array.isArray(rightValue)) {
+      return container(
+        leftPath,
+        rightPath,
+        diffArrays(leftValue, rightValue, leftPath, rightPath)
+      );
+    }
+    if (isPlainObject(leftValue) && isPlainObject(rightValue)) {
+      return container(
+        leftPath,
+        rightPath,
+        diffObjects(leftValue, rightValue, leftPath, rightPath)
+      );
+    }
+
+    const equal =
+      !isJsonContainer(leftValue) &&
+      !isJsonContainer(rightValue) &&
+      leftValue === rightValue;
+    if (equal) return { status: "unchanged", leftPath, rightPath };
+
+    differenceCount++;
+    return { status: "changed", leftPath, rightPath };
+  };
+
+  const root = diff(left, right, [], []);
+  return { root, differenceCount };
+};
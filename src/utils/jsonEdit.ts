@@ -0,0 +1,221 @@
+import { isJsonContainer, JsonContainer } from "./jsonTree";
+import { hasOwn, isPlainObject, PathSegment } from "./query/common";
+
+// Value types that can be picked when editing a value in the tree
+export type EditableType = "string" | "number" | "boolean" | "null";
+
+export const EDITABLE_TYPES: EditableType[] = [
+  "string",
+  "number",
+  "boolean",
+  "null",
+];
+
+// Outcome of an edit: the new document and the path of the edited node in it
+export type EditResult =
+  | { ok: true; data: JsonContainer; path: PathSegment[] }
+  | { ok: false; error: string };
+
+export const getEditableType = (value: unknown): EditableType => {
+  if (value === null) return "null";
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  return "string";
+};
+
+// Convert the text typed in the editor to a value of the chosen type
+export const parseEditedValue = (
+  text: string,
+  type: EditableType
+): { ok: true; value: unknown } | { ok: false; error: string } => {
+  switch (type) {
+    case "string":
+      return { ok: true, value: text };
+    case "number": {
+      const number = Number(text.trim());
+      if (text.trim() === "" || !Number.isFinite(number)) {
+        return { ok: false, error: `"${text}" is not a number` };
+      }
+      return { ok: true, value: number };
+    }
+    case "boolean": {
+      const normalized = text.trim().toLowerCase();
+      if (normalized !== "true" && normalized !== "false") {
+        return { ok: false, error: 'A boolean is "true" or "false"' };
+      }
+      return { ok: true, value: normalized === "true" };
+    }
+    case "null":
+      return { ok: true, value: null };
+  }
+};
+
+// Read the node at path, or undefined when there is none
+export const getValueAt = (value: unknown, path: PathSegment[]): unknown => {
+  let current = value;
+  for (const segment of path) {
+    if (!isJsonContainer(current)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+};
+
+// Copy the document with the node at path replaced by update(node). Only
+// the containers along the path are copied, the rest is shared.
+const updateAt = (
+  value: unknown,
+  path: PathSegment[],
+  update: (node: unknown) => unknown
+): unknown => {
+  if (path.length === 0) return update(value);
+
+  const [segment, ...rest] = path;
+  if (Array.isArray(value) && typeof segment === "number") {
+    if (segment < 0 || segment >= value.length) {
+      throw new Error(`Index ${segment} is out of range`);
+    }
+    const copy = [...value];
+    copy[segment] = updateAt(value[segment], rest, update);
+    return copy;
+  }
+  if (isPlainObject(value) && typeof segment === "string") {
+    if (!hasOwn(value, segment)) {
+      throw new Error(`Key "${segment}" doesn't exist`);
+    }
+    return { ...value, [segment]: updateAt(value[segment], rest, update) };
+  }
+  throw new Error(`Can't find ${String(segment)} in a ${typeof value}`);
+};
+
+// Run an edit, reporting errors as results
+const applyEdit = (
+  data: JsonContainer,
+  path: PathSegment[],
+  edit: (data: JsonContainer) => unknown
+): EditResult => {
+  try {
+    const newData = edit(data);
+    if (!isJsonContainer(newData)) {
+      return { ok: false, error: "The document must stay an object or array" };
+    }
+    return { ok: true, data: newData, path };
+  } catch (editError) {
+    return { ok: false, error: (editError as Error).message };
+  }
+};
+
+export const setValue = (
+  data: JsonContainer,
+  path: PathSegment[],
+  value: unknown
+): EditResult => {
+  return applyEdit(data, path, (data) => updateAt(data, path, () => value));
+};
+
+// Rename an object key, keeping its position among the other keys
+export const renameKey = (
+  data: JsonContainer,
+  path: PathSegment[],
+  newKey: string
+): EditResult => {
+  const parentPath = path.slice(0, -1);
+  const oldKey = path[path.length - 1];
+
+  return applyEdit(data, [...parentPath, newKey], (data) =>
+    updateAt(data, parentPath, (parent) => {
+      if (!isPlainObject(parent) || typeof oldKey !== "string") {
+        throw new Error("Only object keys can be renamed");
+      }
+      if (newKey === oldKey) return parent;
+      if (hasOwn(parent, newKey)) {
+        throw new Error(`Key "${newKey}" already exists`);
+      }
+      return Object.fromEntries(
+        Object.entries(parent).map(([key, value]) => [
+          key === oldKey ? newKey : key,
+          value,
+        ])
+      );
+    })
+  );
+};
+
+// Remove a property or array item
+export const removeNode = (
+  data: JsonContainer,
+  path: PathSegment[]
+): EditResult => {
+  const parentPath = path.slice(0, -1);
+  const segment = path[path.length - 1];
+
+  return applyEdit(data, parentPath, (data) =>
+    updateAt(data, parentPath, (parent) => {
+      if (Array.isArray(parent) && typeof segment === "number") {
+        return parent.filter((_, index) => index !== segment);
+      }
+      if (isPlainObject(parent) && typeof segment === "string") {
+        const copy = { ...parent };
+        delete copy[segment];
+        return copy;
+      }
+      throw new Error("The document root can't be removed");
+    })
+  );
+};
+
+// Append a null item to an array, or a null property with an unused key to
+// an object
+export const addChild = (
+  data: JsonContainer,
+  path: PathSegment[]
+): EditResult => {
+  let childPath: PathSegment[] = [];
+
+  const result = applyEdit(data, path, (data) =>
+    updateAt(data, path, (container) => {
+      if (Array.isArray(container)) {
+        childPath = [...path, container.length];
+        return [...container, null];
+      }
+      if (isPlainObject(container)) {
+        let key = "newKey";
+        for (let n = 1; hasOwn(container, key); n++) {
+          key = `newKey${n}`;
+        }
+        childPath = [...path, key];
+        return { ...container, [key]: null };
+      }
+      throw new Error("Only objects and arrays have children");
+    })
+  );
+
+  return result.ok ? { ...result, path: childPath } : result;
+};
+
+// Move an array item up (-1) or down (+1) by swapping it with its neighbour
+export const moveItem = (
+  data: JsonContainer,
+  path: PathSegment[],
+  offset: -1 | 1
+): EditResult => {
+  const parentPath = path.slice(0, -1);
+  const index = path[path.length - 1];
+  if (typeof index !== "number") {
+    return { ok: false, error: "Only array items can be moved" };
+  }
+
+  return applyEdit(data, [...parentPath, index + offset], (data) =>
+    updateAt(data, parentPath, (array) => {
+      if (!Array.isArray(array)) {
+        throw new Error("Only array items can be moved");
+      }
+      const target = index + offset;
+      if (target < 0 || target >= array.length) {
+        throw new Error("The item can't be moved further");
+      }
+      const copy = [...array];
+      [copy[index], copy[target]] = [copy[target], copy[index]];
+      return copy;
+    })
+  );
+};
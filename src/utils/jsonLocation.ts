@@ -0,0 +1,194 @@
+import { JsonDialect } from "./jsonDialect";
+import { unescapeString } from "./jsonParser";
+import { PathSegment } from "./query";
+
+// Where nodes are in the document text, to carry the position over between
+// the editor and the tree. The text is scanned without building values; it
+// is assumed to be mostly valid, and a scan stops at the first problem.
+
+// A node's text: its key and value, or only the value of an array item
+export type TextRange = { start: number; end: number };
+
+type ScanVisitor = {
+  // Called before a node is read; returning true stops the scan
+  enter: (path: PathSegment[], start: number) => boolean;
+  // Called once its value has been read; returning true stops the scan
+  leave: (path: PathSegment[], start: number, end: number) => boolean;
+};
+
+// Thrown to end a scan early, e.g. once a node was found
+class StopScan extends Error {}
+
+const WHITESPACE = /\s/;
+// Characters that end a number or a literal such as true
+const VALUE_END = /[\s,\]}/:]/;
+
+// Read the value of a quoted key. Keys with escapes JSON doesn't have, such
+// as JSON5's \x41, are kept as written.
+const decodeString = (raw: string): string => {
+  const content = raw.slice(1, -1);
+  return unescapeString(content) ?? content;
+};
+
+// Walk the nodes of a document in order. Returns the path being read when
+// the scan ended, which is where it stopped, the problem it ran into or the
+// depth of nesting too deep to follow.
+const scanDocument = (
+  text: string,
+  dialect: JsonDialect,
+  visitor: ScanVisitor
+): PathSegment[] => {
+  let pos = 0;
+  const path: PathSegment[] = [];
+
+  const skipTrivia = () => {
+    while (pos < text.length) {
+      if (WHITESPACE.test(text[pos])) {
+        pos++;
+      } else if (text.startsWith("//", pos)) {
+        const lineEnd = text.indexOf("\n", pos);
+        pos = lineEnd === -1 ? text.length : lineEnd;
+      } else if (text.startsWith("/*", pos)) {
+        const commentEnd = text.indexOf("*/", pos + 2);
+        pos = commentEnd === -1 ? text.length : commentEnd + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos;
+    const quote = text[pos++];
+    while (pos < text.length && text[pos] !== quote) {
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    if (pos >= text.length) throw new StopScan("Unterminated string");
+    pos++;
+    return decodeString(text.slice(start, pos));
+  };
+
+  // Unquoted JSON5 keys end at the colon
+  const readKey = (): string => {
+    if (text[pos] === '"' || text[pos] === "'") return readString();
+    const start = pos;
+    while (pos < text.length && !/[\s:]/.test(text[pos])) pos++;
+    if (pos === start) throw new StopScan("Expected a key");
+    return text.slice(start, pos);
+  };
+
+  const readContainer = (close: "}" | "]") => {
+    pos++;
+    for (let index = 0; ; index++) {
+      skipTrivia();
+      if (text[pos] === close) {
+        pos++;
+        return;
+      }
+
+      const start = pos;
+      if (close === "}") {
+        path.push(readKey());
+        if (visitor.enter(path, start)) throw new StopScan();
+        skipTrivia();
+        if (text[pos] !== ":") throw new StopScan("Expected a colon");
+        pos++;
+      } else {
+        path.push(index);
+        if (visitor.enter(path, start)) throw new StopScan();
+      }
+      readValue(start);
+      path.pop();
+
+      skipTrivia();
+      if (text[pos] === ",") pos++;
+      else if (text[pos] !== close) throw new StopScan("Expected a comma");
+    }
+  };
+
+  // Read a value and report its node, which starts at its key if it has one
+  const readValue = (start: number) => {
+    skipTrivia();
+    const char = text[pos];
+    if (char === "{") readContainer("}");
+    else if (char === "[") readContainer("]");
+    else if (char === '"' || char === "'") readString();
+    else {
+      const valueStart = pos;
+      while (pos < text.length && !VALUE_END.test(text[pos])) pos++;
+      if (pos === valueStart) throw new StopScan("Expected a value");
+    }
+    if (visitor.leave(path, start, pos)) throw new StopScan();
+  };
+
+  try {
+    skipTrivia();
+    if (dialect === "ndjson") {
+      // The lines are the items of the root array
+      for (let index = 0; pos < text.length; index++) {
+        path.push(index);
+        if (visitor.enter(path, pos)) throw new StopScan();
+        readValue(pos);
+        path.pop();
+        skipTrivia();
+      }
+    } else {
+      if (visitor.enter(path, pos)) throw new StopScan();
+      readValue(pos);
+    }
+  } catch (scanError) {
+    // Nesting deep enough to overflow the stack ends the scan like a problem
+    // in the text
+    if (!(scanError instanceof StopScan || scanError instanceof RangeError)) {
+      throw scanError;
+    }
+  }
+  return [...path];
+};
+
+// The text of the node at a path, or null when it can't be found
+export const findNodeRange = (
+  text: string,
+  dialect: JsonDialect,
+  target: PathSegment[]
+): TextRange | null => {
+  let range: TextRange | null = null;
+  scanDocument(text, dialect, {
+    enter: () => false,
+    leave: (path, start, end) => {
+      if (
+        path.length !== target.length ||
+        path.some((segment, index) => segment !== target[index])
+      ) {
+        return false;
+      }
+      range = { start, end };
+      return true;
+    },
+  });
+  return range;
+};
+
+// The path of the innermost node whose text contains an offset. Offsets
+// between the items of a container belong to the container.
+export const findPathAtOffset = (
+  text: string,
+  dialect: JsonDialect,
+  offset: number
+): PathSegment[] => {
+  let found: PathSegment[] | null = null;
+  const stoppedAt = scanDocument(text, dialect, {
+    enter: (path, start) => {
+      if (start <= offset) return false;
+      found = path.slice(0, -1);
+      return true;
+    },
+    leave: (path, _start, end) => {
+      if (offset > end) return false;
+      found = [...path];
+      return true;
+    },
+  });
+  // Past the end of the document, or in text that couldn't be read
+  return found ?? (offset >= text.trimEnd().length ? [] : stoppedAt);
+};
@@ -0,0 +1,673 @@
+// Error-tolerant JSON parser. It keeps going after a problem, collecting a
+// diagnostic for each one, and recovers as much of the document as it can.
+// Common breakage comes with a text edit that repairs it. The JSONC and
+// JSON5 syntaxes accept what those formats allow without reporting it.
+
+export type ParserSyntax = "json" | "jsonc" | "json5";
+
+export type RepairEdit = {
+  offset: number;
+  length: number;
+  text: string;
+};
+
+export type ParseDiagnostic = {
+  message: string;
+  offset: number;
+  length: number;
+  // 1-based position of offset in the text
+  line: number;
+  column: number;
+  repair: { label: string; edits: RepairEdit[] } | null;
+};
+
+export type TolerantParseResult = {
+  // undefined when nothing could be recovered
+  value: unknown;
+  diagnostics: ParseDiagnostic[];
+};
+
+// Stop reporting after this many problems; the rest are usually follow-ups
+export const MAX_DIAGNOSTICS = 100;
+// Longest stretch of unexpected text reported as a single problem
+const MAX_SKIPPED_LENGTH = 80;
+
+const STRICT_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/;
+const JSON5_NUMBER = /^[-+]?((0|[1-9]\d*)(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+const LOOSE_NUMBER = /[-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?/y;
+const HEX_NUMBER = /([-+]?)0[xX]([\da-fA-F]+)/y;
+const WORD = /[A-Za-z_$][\w$]*/y;
+const WORD_START = /[A-Za-z_$]/;
+const VALUE_START = /["'{[\d.+\-A-Za-z_$]/;
+// Characters that end a run of unexpected text
+const STRUCTURAL = /[\s,:[\]{}"]/;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+// Decode the text between the quotes of a string: JSON's escapes, and \'
+// for strings in single quotes. Returns null for an invalid escape or an
+// unescaped control character.
+export const unescapeString = (body: string): string | null => {
+  let value = "";
+  let segmentStart = 0;
+
+  for (let pos = 0; pos < body.length; pos++) {
+    const char = body[pos];
+    if (char < " ") return null;
+    if (char !== "\\") continue;
+
+    value += body.slice(segmentStart, pos);
+    const escape = body[pos + 1];
+    const hex = body.slice(pos + 2, pos + 6);
+    if (escape === "u" && /^[\da-fA-F]{4}$/.test(hex)) {
+      value += String.fromCharCode(parseInt(hex, 16));
+      pos += 5;
+    } else if (escape === "'" || (escape !== undefined && ESCAPES[escape])) {
+      value += escape === "'" ? "'" : ESCAPES[escape];
+      pos++;
+    } else {
+      return null;
+    }
+    segmentStart = pos + 1;
+  }
+
+  return value + body.slice(segmentStart);
+};
+
+// Values written in other languages and their JSON equivalents
+const FOREIGN_LITERALS: Record<string, string> = {
+  True: "true",
+  False: "false",
+  None: "null",
+  undefined: "null",
+  NaN: "null",
+  Infinity: "null",
+};
+
+// Objects are built with defineProperty so a "__proto__" key stays data
+const setProperty = (
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown
+) => {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+};
+
+// 1-based line and column of each offset
+const locate = (text: string, diagnostics: ParseDiagnostic[]) => {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  diagnostics.forEach((diagnostic) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= diagnostic.offset) low = middle;
+      else high = middle - 1;
+    }
+    diagnostic.line = low + 1;
+    diagnostic.column = diagnostic.offset - lineStarts[low] + 1;
+  });
+};
+
+// Escapes JSON5 adds; any other character escapes to itself
+const JSON5_ESCAPES: Record<string, string> = { v: "\v", "0": "\0" };
+const LINE_TERMINATORS = "\n\r\u2028\u2029";
+
+// Parse JSON text, recovering from errors instead of stopping at the first
+export const parseJsonTolerant = (
+  text: string,
+  syntax: ParserSyntax = "json"
+): TolerantParseResult => {
+  // JSONC adds comments and trailing commas, JSON5 much of JavaScript
+  const relaxed = syntax !== "json";
+  const json5 = syntax === "json5";
+  const diagnostics: ParseDiagnostic[] = [];
+  let pos = 0;
+  // Set once the text ends inside an unfinished value; everything still
+  // open is then closed by appending `closing`
+  let atEnd = false;
+  let closing = "";
+
+  const report = (
+    message: string,
+    offset: number,
+    length: number,
+    repair?: { label: string; edits: RepairEdit[] }
+  ) => {
+    if (diagnostics.length >= MAX_DIAGNOSTICS) return;
+    diagnostics.push({
+      message,
+      offset,
+      length,
+      line: 0,
+      column: 0,
+      repair: repair ?? null,
+    });
+  };
+
+  const replace = (
+    label: string,
+    offset: number,
+    length: number,
+    replacement = ""
+  ) => ({ label, edits: [{ offset, length, text: replacement }] });
+
+  const skipWhitespace = () => {
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === " " || char === "\n" || char === "\r" || char === "\t") {
+        pos++;
+      } else if (char === "\uFEFF" && pos === 0) {
+        pos++;
+      } else if (text.startsWith("//", pos) || char === "#") {
+        const end = text.indexOf("\n", pos);
+        const commentEnd = end === -1 ? text.length : end;
+        if (!relaxed || char === "#") {
+          report(
+            "Comments aren't allowed in JSON",
+            pos,
+            commentEnd - pos,
+            replace("Remove comment", pos, commentEnd - pos)
+          );
+        }
+        pos = commentEnd;
+      } else if (text.startsWith("/*", pos)) {
+        const end = text.indexOf("*/", pos + 2);
+        const commentEnd = end === -1 ? text.length : end + 2;
+        if (!relaxed || end === -1) {
+          report(
+            end === -1
+              ? "Unterminated comment"
+              : "Comments aren't allowed in JSON",
+            pos,
+            commentEnd - pos,
+            replace("Remove comment", pos, commentEnd - pos)
+          );
+        }
+        pos = commentEnd;
+      } else {
+        break;
+      }
+    }
+  };
+
+  // Skip a run of text that can't be parsed, reporting it once
+  const skipUnexpected = () => {
+    const start = pos;
+    pos++;
+    while (
+      pos < text.length &&
+      pos - start < MAX_SKIPPED_LENGTH &&
+      !STRUCTURAL.test(text[pos])
+    ) {
+      pos++;
+    }
+    report(`Unexpected "${text.slice(start, pos)}"`, start, pos - start);
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    const quote = text[pos];
+    let value = "";
+    let segmentStart = ++pos;
+
+    while (true) {
+      if (pos >= text.length) {
+        value += text.slice(segmentStart, pos);
+        report("Unterminated string", start, pos - start);
+        closing += quote;
+        atEnd = true;
+        break;
+      }
+
+      const char = text[pos];
+      if (char === quote) {
+        value += text.slice(segmentStart, pos);
+        pos++;
+        break;
+      }
+
+      if (char === "\\") {
+        value += text.slice(segmentStart, pos);
+        const escape = text[pos + 1];
+        if (
+          escape === "u" &&
+          /^[\da-fA-F]{4}$/.test(text.slice(pos + 2, pos + 6))
+        ) {
+          value += String.fromCharCode(
+            parseInt(text.slice(pos + 2, pos + 6), 16)
+          );
+          pos += 6;
+        } else if (
+          escape !== undefined &&
+          (ESCAPES[escape] || escape === "'")
+        ) {
+          value += escape === "'" ? "'" : ESCAPES[escape];
+          pos += 2;
+          // \' is only valid in single-quoted strings, which get rewritten
+          if (escape === "'" && quote === '"' && !json5) {
+            report(
+              "Invalid escape \\'",
+              pos - 2,
+              2,
+              replace("Remove backslash", pos - 2, 1)
+            );
+          }
+        } else if (json5 && escape !== undefined && !/[1-9]/.test(escape)) {
+          // A backslash before a line break continues the string
+          if (escape === "\r" && text[pos + 2] === "\n") pos++;
+          if (
+            escape === "x" &&
+            /^[\da-fA-F]{2}$/.test(text.slice(pos + 2, pos + 4))
+          ) {
+            value += String.fromCharCode(
+              parseInt(text.slice(pos + 2, pos + 4), 16)
+            );
+            pos += 2;
+          } else if (!LINE_TERMINATORS.includes(escape)) {
+            value += JSON5_ESCAPES[escape] ?? escape;
+          }
+          pos += 2;
+        } else {
+          report(
+            `Invalid escape "\\${escape ?? ""}"`,
+            pos,
+            2,
+            replace("Escape backslash", pos, 1, "\\\\")
+          );
+          value += escape ?? "";
+          pos += 2;
+        }
+        segmentStart = pos;
+        continue;
+      }
+
+      if (char < " ") {
+        value += text.slice(segmentStart, pos) + char;
+        // Single-quoted strings are rewritten as a whole, except in JSON5
+        if (quote === '"' || json5) {
+          report(
+            "Unescaped control character in string",
+            pos,
+            1,
+            replace(
+              "Escape character",
+              pos,
+              1,
+              JSON.stringify(char).slice(1, -1)
+            )
+          );
+        }
+        segmentStart = ++pos;
+        continue;
+      }
+      pos++;
+    }
+
+    // An unterminated string is closed by the end-of-document repair first
+    if (quote === "'" && !json5) {
+      report(
+        "Strings must use double quotes",
+        start,
+        pos - start,
+        atEnd
+          ? undefined
+          : replace(
+              "Use double quotes",
+              start,
+              pos - start,
+              JSON.stringify(value)
+            )
+      );
+    }
+    return value;
+  };
+
+  const parseNumber = (): number | null => {
+    const start = pos;
+    if (json5) {
+      HEX_NUMBER.lastIndex = pos;
+      const hex = HEX_NUMBER.exec(text);
+      if (hex) {
+        pos += hex[0].length;
+        const magnitude = parseInt(hex[2], 16);
+        return hex[1] === "-" ? -magnitude : magnitude;
+      }
+    }
+
+    LOOSE_NUMBER.lastIndex = pos;
+    const match = LOOSE_NUMBER.exec(text);
+    // A sign or point without digits, e.g. while a number is being typed
+    if (!match) {
+      skipUnexpected();
+      return null;
+    }
+
+    const raw = match[0];
+    pos += raw.length;
+    const value = Number(raw);
+    if (!(json5 ? JSON5_NUMBER : STRICT_NUMBER).test(raw)) {
+      report(
+        `Invalid number "${raw}"`,
+        start,
+        raw.length,
+        replace("Fix number", start, raw.length, JSON.stringify(value))
+      );
+    }
+    return value;
+  };
+
+  const parseWord = (): unknown => {
+    const start = pos;
+    const sign = text[pos] === "-" || text[pos] === "+" ? text[pos] : "";
+    WORD.lastIndex = pos + sign.length;
+    const match = WORD.exec(text);
+    if (!match) return undefined;
+
+    const word = match[0];
+    pos = WORD.lastIndex;
+    const length = pos - start;
+    if (!sign && (word === "true" || word === "false" || word === "null")) {
+      return word === "true" ? true : word === "false" ? false : null;
+    }
+
+    if (json5 && (word === "Infinity" || word === "NaN")) {
+      return Number(sign + word);
+    }
+
+    const replacement = FOREIGN_LITERALS[word];
+    if (replacement) {
+      report(
+        `${sign}${word} isn't valid JSON`,
+        start,
+        length,
+        replace(`Replace with ${replacement}`, start, length, replacement)
+      );
+      return JSON.parse(replacement);
+    }
+
+    // Most likely a string that is missing its quotes
+    report(
+      `Unexpected "${sign}${word}"`,
+      start,
+      length,
+      replace("Add quotes", start, length, JSON.stringify(sign + word))
+    );
+    return sign + word;
+  };
+
+  // Parse a value, or return undefined when there is none at this point
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (pos >= text.length) return undefined;
+
+    const char = text[pos];
+    if (char === "{") return parseObject();
+    if (char === "[") return parseArray();
+    if (char === '"' || char === "'") return parseString();
+    if (/[\d.]/.test(char)) return parseNumber();
+    if (char === "-" || char === "+") {
+      return WORD_START.test(text[pos + 1] ?? "") ? parseWord() : parseNumber();
+    }
+    if (WORD_START.test(char)) return parseWord();
+    return undefined;
+  };
+
+  // A value inside a container; a missing one is reported and becomes null
+  const parseMember = (): unknown => {
+    const value = parseValue();
+    if (value !== undefined || atEnd) return value ?? null;
+
+    if (pos >= text.length) {
+      closing += "null";
+      atEnd = true;
+    } else if (/[,\]}]/.test(text[pos])) {
+      report(
+        "Expected a value",
+        pos,
+        1,
+        replace("Insert null", pos, 0, "null")
+      );
+    } else {
+      skipUnexpected();
+    }
+    return null;
+  };
+
+  // After a member: consume the comma, reporting a trailing or missing
+  // one. Returns whether the container was closed.
+  const parseSeparator = (close: string, valueEnd: number): boolean => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === ",") {
+      const commaAt = pos++;
+      skipWhitespace();
+      if (!relaxed && (text[pos] === close || pos >= text.length)) {
+        report(
+          "Trailing comma",
+          commaAt,
+          1,
+          replace("Remove trailing comma", commaAt, 1)
+        );
+      }
+    } else if (char === close) {
+      pos++;
+      return true;
+    } else if (char !== undefined && VALUE_START.test(char)) {
+      report(
+        "Expected a comma",
+        valueEnd,
+        0,
+        replace("Insert comma", valueEnd, 0, ",")
+      );
+    }
+    return false;
+  };
+
+  const parseArray = (): unknown[] => {
+    const result: unknown[] = [];
+    pos++;
+
+    while (true) {
+      const iterationStart = pos;
+      skipWhitespace();
+      if (pos >= text.length) {
+        closing += "]";
+        atEnd = true;
+        return result;
+      }
+
+      const char = text[pos];
+      if (char === "]") {
+        pos++;
+        return result;
+      }
+      if (char === "}") {
+        report("Expected ']'", pos, 1, replace("Replace with ]", pos, 1, "]"));
+        pos++;
+        return result;
+      }
+      if (char === ",") {
+        report("Unexpected comma", pos, 1, replace("Remove comma", pos, 1));
+        pos++;
+        continue;
+      }
+      if (!VALUE_START.test(char)) {
+        skipUnexpected();
+        continue;
+      }
+
+      result.push(parseMember());
+      if (atEnd) {
+        closing += "]";
+        return result;
+      }
+
+      if (parseSeparator("]", pos)) return result;
+      // Text that none of the above consumed would be read again forever
+      if (pos === iterationStart) skipUnexpected();
+    }
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    pos++;
+
+    while (true) {
+      const iterationStart = pos;
+      skipWhitespace();
+      if (pos >= text.length) {
+        closing += "}";
+        atEnd = true;
+        return result;
+      }
+
+      const char = text[pos];
+      if (char === "}") {
+        pos++;
+        return result;
+      }
+      if (char === "]") {
+        report("Expected '}'", pos, 1, replace("Replace with }", pos, 1, "}"));
+        pos++;
+        return result;
+      }
+      if (char === ",") {
+        report("Unexpected comma", pos, 1, replace("Remove comma", pos, 1));
+        pos++;
+        continue;
+      }
+
+      // Property name
+      const keyStart = pos;
+      let key: string;
+      if (char === '"' || char === "'") {
+        key = parseString();
+      } else if (WORD_START.test(char)) {
+        WORD.lastIndex = pos;
+        key = WORD.exec(text)![0];
+        pos += key.length;
+        if (!json5) {
+          report(
+            "Property names must be quoted",
+            keyStart,
+            key.length,
+            replace(
+              "Quote property name",
+              keyStart,
+              key.length,
+              JSON.stringify(key)
+            )
+          );
+        }
+      } else {
+        skipUnexpected();
+        continue;
+      }
+      if (atEnd) {
+        closing += ":null}";
+        setProperty(result, key, null);
+        return result;
+      }
+
+      const keyEnd = pos;
+      skipWhitespace();
+      if (pos >= text.length) {
+        closing += ":null}";
+        atEnd = true;
+        setProperty(result, key, null);
+        return result;
+      }
+      if (text[pos] === ":") {
+        pos++;
+      } else {
+        report(
+          "Expected ':' after property name",
+          keyEnd,
+          0,
+          replace("Insert colon", keyEnd, 0, ":")
+        );
+      }
+
+      setProperty(result, key, parseMember());
+      if (atEnd) {
+        closing += "}";
+        return result;
+      }
+
+      if (parseSeparator("}", pos)) return result;
+      if (pos === iterationStart) skipUnexpected();
+    }
+  };
+
+  const value = parseValue();
+
+  if (value === undefined && !atEnd) {
+    skipWhitespace();
+    if (pos < text.length) {
+      skipUnexpected();
+    }
+  } else if (atEnd) {
+    report(
+      "Unexpected end of document",
+      text.length,
+      0,
+      replace("Close open values", text.length, 0, closing)
+    );
+  } else {
+    skipWhitespace();
+    if (pos < text.length) {
+      report(
+        "Unexpected content after the document",
+        pos,
+        text.length - pos,
+        replace("Remove trailing content", pos, text.length - pos)
+      );
+    }
+  }
+
+  locate(text, diagnostics);
+  return { value, diagnostics };
+};
+
+// Apply the repairs of the given diagnostics. Edits that overlap one
+// applied before are skipped; parsing again reports what remains.
+export const applyRepairs = (
+  text: string,
+  diagnostics: ParseDiagnostic[]
+): string => {
+  const edits = diagnostics
+    .flatMap((diagnostic) => diagnostic.repair?.edits ?? [])
+    .sort((a, b) => b.offset - a.offset);
+
+  let result = text;
+  let appliedStart = Number.POSITIVE_INFINITY;
+  edits.forEach((edit) => {
+    if (edit.offset + edit.length > appliedStart) return;
+    result =
+      result.slice(0, edit.offset) +
+      edit.text +
+      result.slice(edit.offset + edit.length);
+    appliedStart = edit.offset;
+  });
+  return result;
+};
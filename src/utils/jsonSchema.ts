@@ -0,0 +1,589 @@
+import { deepEqual, hasOwn, isPlainObject, PathSegment } from "./query/common";
+
+// JSON Schema validation (draft-07 and draft 2020-12). Supports the
+// assertion and applicator keywords of both drafts, local $ref / $anchor /
+// $id resolution, unevaluatedProperties / unevaluatedItems and the common
+// string formats. Remote references are not fetched.
+
+export type SchemaError = {
+  // Location of the offending value in the document
+  path: PathSegment[];
+  keyword: string;
+  message: string;
+};
+
+export type ValidationResult =
+  { ok: true; errors: SchemaError[] } | { ok: false; error: string };
+
+// Where the schema attached to a document comes from. Schemas from tabs
+// follow the edits of that tab, schemas from files are read when attached.
+export type SchemaSource =
+  { kind: "tab"; tabId: string } | { kind: "file"; path: string };
+
+type Schema = boolean | Record<string, unknown>;
+
+// Properties and items checked by a schema, for unevaluated* keywords
+type Evaluated = {
+  properties: Set<string>;
+  items: number;
+};
+
+type Outcome = {
+  valid: boolean;
+  evaluated: Evaluated;
+};
+
+// Stop collecting after this many errors; broken documents produce plenty
+export const MAX_SCHEMA_ERRORS = 1000;
+// Base URI for schemas without an absolute $id
+const DEFAULT_BASE_URI = "schema:root";
+
+// Formats checked by the "format" keyword; others are accepted as is
+export const STRING_FORMATS: Record<string, RegExp> = {
+  "date-time":
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z\d+.-]*:[^\s]*$/,
+  uuid: /^[\da-fA-F]{8}-[\da-fA-F]{4}-[\da-fA-F]{4}-[\da-fA-F]{4}-[\da-fA-F]{12}$/,
+  ipv4: /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+};
+
+const getType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number";
+    case "object":
+      return isPlainObject(value);
+    default:
+      return getType(value) === type;
+  }
+};
+
+// Length in code points, as JSON Schema counts string length
+const stringLength = (value: string) => [...value].length;
+
+const describe = (value: unknown) => JSON.stringify(value);
+
+const emptyEvaluated = (): Evaluated => ({ properties: new Set(), items: 0 });
+
+const mergeEvaluated = (target: Evaluated, source: Evaluated) => {
+  source.properties.forEach((key) => target.properties.add(key));
+  target.items = Math.max(target.items, source.items);
+};
+
+// Follow a JSON pointer fragment ("/$defs/name") inside a schema
+const resolvePointer = (root: unknown, pointer: string): unknown => {
+  if (pointer === "") return root;
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((part) =>
+      decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~")
+    )
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === "object" && hasOwn(current, key)
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      root
+    );
+};
+
+const splitUri = (uri: string): [string, string] => {
+  const hashIndex = uri.indexOf("#");
+  return hashIndex === -1
+    ? [uri, ""]
+    : [uri.slice(0, hashIndex), uri.slice(hashIndex + 1)];
+};
+
+const resolveUri = (reference: string, base: string) => {
+  try {
+    return new URL(reference, base).href;
+  } catch {
+    return reference;
+  }
+};
+
+// Validate a document against a JSON Schema
+export const validateJson = (
+  data: unknown,
+  rootSchema: unknown
+): ValidationResult => {
+  if (typeof rootSchema !== "boolean" && !isPlainObject(rootSchema)) {
+    return { ok: false, error: "A schema must be an object or a boolean" };
+  }
+
+  // Schema resources by base URI, and anchors by URI with fragment
+  const resources = new Map<string, Schema>();
+  const anchors = new Map<string, Schema>();
+  // Base URI of every schema object, for resolving relative references
+  const baseUris = new Map<Schema, string>();
+
+  const index = (schema: unknown, base: string) => {
+    if (Array.isArray(schema)) {
+      schema.forEach((item) => index(item, base));
+      return;
+    }
+    if (!isPlainObject(schema)) return;
+
+    let schemaBase = base;
+    if (typeof schema.$id === "string") {
+      const [uri, fragment] = splitUri(resolveUri(schema.$id, base));
+      schemaBase = uri;
+      resources.set(uri, schema);
+      // draft-07 anchors are written as "$id": "#name"
+      if (fragment) anchors.set(`${uri}#${fragment}`, schema);
+    }
+    for (const anchorKey of ["$anchor", "$dynamicAnchor"]) {
+      if (typeof schema[anchorKey] === "string") {
+        anchors.set(`${schemaBase}#${schema[anchorKey]}`, schema);
+      }
+    }
+    baseUris.set(schema, schemaBase);
+
+    // Skip values that are data rather than subschemas
+    Object.entries(schema).forEach(([key, value]) => {
+      if (key !== "enum" && key !== "const" && key !== "examples") {
+        index(value, schemaBase);
+      }
+    });
+  };
+
+  resources.set(DEFAULT_BASE_URI, rootSchema);
+  index(rootSchema, DEFAULT_BASE_URI);
+
+  const resolveRef = (reference: string, from: Schema): Schema => {
+    const base =
+      (typeof from === "object" && baseUris.get(from)) || DEFAULT_BASE_URI;
+    const [uri, fragment] = splitUri(resolveUri(reference, base));
+
+    const target =
+      fragment && !fragment.startsWith("/")
+        ? anchors.get(`${uri}#${fragment}`)
+        : resolvePointer(resources.get(uri), fragment);
+    if (typeof target !== "boolean" && !isPlainObject(target)) {
+      throw new Error(`Can't resolve $ref "${reference}"`);
+    }
+    return target;
+  };
+
+  const errors: SchemaError[] = [];
+  const addError = (path: PathSegment[], keyword: string, message: string) => {
+    if (errors.length < MAX_SCHEMA_ERRORS)
+      errors.push({ path, keyword, message });
+  };
+
+  // Run a subschema without reporting its errors, e.g. for anyOf branches
+  const test = (schema: unknown, value: unknown, path: PathSegment[]) => {
+    const errorCount = errors.length;
+    const outcome = validate(schema, value, path);
+    errors.length = errorCount;
+    return outcome;
+  };
+
+  const validate = (
+    schema: unknown,
+    value: unknown,
+    path: PathSegment[],
+    // Stack of $ref targets to stop infinite recursion on the same value
+    refStack: Schema[] = []
+  ): Outcome => {
+    const evaluated = emptyEvaluated();
+    if (schema === true) return { valid: true, evaluated };
+    if (schema === false) {
+      addError(path, "false schema", "no value is allowed here");
+      return { valid: false, evaluated };
+    }
+    if (!isPlainObject(schema)) {
+      throw new Error(`Invalid schema at ${describe(path)}`);
+    }
+
+    const errorCount = errors.length;
+    let valid = true;
+    const fail = (keyword: string, message: string) => {
+      valid = false;
+      addError(path, keyword, message);
+    };
+    // Apply a subschema to the same value, merging what it evaluated
+    const apply = (subschema: unknown, nextRefStack = refStack) => {
+      const outcome = validate(subschema, value, path, nextRefStack);
+      if (outcome.valid) mergeEvaluated(evaluated, outcome.evaluated);
+      else valid = false;
+      return outcome.valid;
+    };
+
+    if (typeof schema.$ref === "string") {
+      const target = resolveRef(schema.$ref, schema);
+      if (refStack.includes(target)) {
+        throw new Error(`$ref "${schema.$ref}" refers to itself`);
+      }
+      apply(target, [...refStack, target]);
+    }
+    if (typeof schema.$dynamicRef === "string") {
+      apply(resolveRef(schema.$dynamicRef, schema));
+    }
+
+    // Type and value assertions
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => matchesType(value, type as string))) {
+        fail("type", `must be ${types.join(" or ")}`);
+      }
+    }
+    if (
+      Array.isArray(schema.enum) &&
+      !schema.enum.some((item) => deepEqual(item, value))
+    ) {
+      fail(
+        "enum",
+        `must be one of ${schema.enum.map((item) => describe(item)).join(", ")}`
+      );
+    }
+    if (hasOwn(schema, "const") && !deepEqual(schema.const, value)) {
+      fail("const", `must be ${describe(schema.const)}`);
+    }
+
+    if (typeof value === "number") {
+      const {
+        multipleOf,
+        maximum,
+        minimum,
+        exclusiveMaximum,
+        exclusiveMinimum,
+      } = schema;
+      if (
+        typeof multipleOf === "number" &&
+        !Number.isInteger(Number((value / multipleOf).toPrecision(12)))
+      ) {
+        fail("multipleOf", `must be a multiple of ${multipleOf}`);
+      }
+      if (typeof maximum === "number" && value > maximum) {
+        fail("maximum", `must be <= ${maximum}`);
+      }
+      if (typeof minimum === "number" && value < minimum) {
+        fail("minimum", `must be >= ${minimum}`);
+      }
+      if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum) {
+        fail("exclusiveMaximum", `must be < ${exclusiveMaximum}`);
+      }
+      if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum) {
+        fail("exclusiveMinimum", `must be > ${exclusiveMinimum}`);
+      }
+    }
+
+    if (typeof value === "string") {
+      const { maxLength, minLength, pattern, format } = schema;
+      if (typeof maxLength === "number" && stringLength(value) > maxLength) {
+        fail("maxLength", `must be at most ${maxLength} characters`);
+      }
+      if (typeof minLength === "number" && stringLength(value) < minLength) {
+        fail("minLength", `must be at least ${minLength} characters`);
+      }
+      if (
+        typeof pattern === "string" &&
+        !new RegExp(pattern, "u").test(value)
+      ) {
+        fail("pattern", `must match pattern ${describe(pattern)}`);
+      }
+      if (
+        typeof format === "string" &&
+        STRING_FORMATS[format] &&
+        !STRING_FORMATS[format].test(value)
+      ) {
+        fail("format", `must be a valid ${format}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      const { maxItems, minItems, uniqueItems } = schema;
+      if (typeof maxItems === "number" && value.length > maxItems) {
+        fail("maxItems", `must have at most ${maxItems} items`);
+      }
+      if (typeof minItems === "number" && value.length < minItems) {
+        fail("minItems", `must have at least ${minItems} items`);
+      }
+      if (uniqueItems === true) {
+        const duplicate = value.findIndex((item, i) =>
+          value.slice(0, i).some((other) => deepEqual(item, other))
+        );
+        if (duplicate !== -1) {
+          fail("uniqueItems", `item ${duplicate} is a duplicate`);
+        }
+      }
+
+      // draft-07 uses an items array for tuples, 2020-12 prefixItems
+      const prefixItems = Array.isArray(schema.prefixItems)
+        ? schema.prefixItems
+        : Array.isArray(schema.items)
+          ? schema.items
+          : [];
+      const restItems = Array.isArray(schema.items)
+        ? schema.additionalItems
+        : schema.items;
+
+      value.forEach((item, i) => {
+        const itemSchema = i < prefixItems.length ? prefixItems[i] : restItems;
+        if (itemSchema === undefined) return;
+        if (!validate(itemSchema, item, [...path, i]).valid) valid = false;
+        evaluated.items = Math.max(evaluated.items, i + 1);
+      });
+
+      if (schema.contains !== undefined) {
+        const matches = value.filter(
+          (item, i) => test(schema.contains, item, [...path, i]).valid
+        ).length;
+        const minContains =
+          typeof schema.minContains === "number" ? schema.minContains : 1;
+        if (matches < minContains) {
+          fail(
+            "contains",
+            `must contain at least ${minContains} matching item${
+              minContains === 1 ? "" : "s"
+            }`
+          );
+        }
+        if (
+          typeof schema.maxContains === "number" &&
+          matches > schema.maxContains
+        ) {
+          fail(
+            "maxContains",
+            `must contain at most ${schema.maxContains} matching items`
+          );
+        }
+      }
+    }
+
+    if (isPlainObject(value)) {
+      const keys = Object.keys(value);
+      const { maxProperties, minProperties, required } = schema;
+      if (typeof maxProperties === "number" && keys.length > maxProperties) {
+        fail("maxProperties", `must have at most ${maxProperties} properties`);
+      }
+      if (typeof minProperties === "number" && keys.length < minProperties) {
+        fail("minProperties", `must have at least ${minProperties} properties`);
+      }
+      if (Array.isArray(required)) {
+        required
+          .filter((key) => !hasOwn(value, key as string))
+          .forEach((key) =>
+            fail("required", `must have required property ${describe(key)}`)
+          );
+      }
+
+      // draft-07 "dependencies" is split into the two 2020-12 keywords
+      const dependentRequired: Record<string, unknown> = {};
+      const dependentSchemas: Record<string, unknown> = {};
+      if (isPlainObject(schema.dependencies)) {
+        Object.entries(schema.dependencies).forEach(([key, dependency]) => {
+          if (Array.isArray(dependency)) dependentRequired[key] = dependency;
+          else dependentSchemas[key] = dependency;
+        });
+      }
+      Object.assign(
+        dependentRequired,
+        isPlainObject(schema.dependentRequired) ? schema.dependentRequired : {}
+      );
+      Object.assign(
+        dependentSchemas,
+        isPlainObject(schema.dependentSchemas) ? schema.dependentSchemas : {}
+      );
+
+      Object.entries(dependentRequired).forEach(([key, dependency]) => {
+        if (!hasOwn(value, key) || !Array.isArray(dependency)) return;
+        dependency
+          .filter((other) => !hasOwn(value, other as string))
+          .forEach((other) =>
+            fail(
+              "dependentRequired",
+              `must have property ${describe(other)} when ${describe(key)} is present`
+            )
+          );
+      });
+      Object.entries(dependentSchemas).forEach(([key, dependency]) => {
+        if (hasOwn(value, key)) apply(dependency);
+      });
+
+      const properties = isPlainObject(schema.properties)
+        ? schema.properties
+        : {};
+      const patterns = isPlainObject(schema.patternProperties)
+        ? Object.entries(schema.patternProperties).map(
+            ([pattern, subschema]) =>
+              [new RegExp(pattern, "u"), subschema] as const
+          )
+        : [];
+
+      keys.forEach((key) => {
+        const childPath = [...path, key];
+        let matched = false;
+
+        if (hasOwn(properties, key)) {
+          matched = true;
+          if (!validate(properties[key], value[key], childPath).valid) {
+            valid = false;
+          }
+        }
+        patterns.forEach(([regex, subschema]) => {
+          if (!regex.test(key)) return;
+          matched = true;
+          if (!validate(subschema, value[key], childPath).valid) valid = false;
+        });
+        if (!matched && schema.additionalProperties !== undefined) {
+          matched = true;
+          if (schema.additionalProperties === false) {
+            fail(
+              "additionalProperties",
+              `must not have additional property ${describe(key)}`
+            );
+          } else if (
+            !validate(schema.additionalProperties, value[key], childPath).valid
+          ) {
+            valid = false;
+          }
+        }
+        if (matched) evaluated.properties.add(key);
+
+        if (
+          schema.propertyNames !== undefined &&
+          !test(schema.propertyNames, key, childPath).valid
+        ) {
+          fail("propertyNames", `property name ${describe(key)} is invalid`);
+        }
+      });
+    }
+
+    // Combinators
+    if (Array.isArray(schema.allOf)) {
+      schema.allOf.forEach((subschema) => apply(subschema));
+    }
+    if (Array.isArray(schema.anyOf)) {
+      const outcomes = schema.anyOf.map((subschema) =>
+        test(subschema, value, path)
+      );
+      const passing = outcomes.filter((outcome) => outcome.valid);
+      if (passing.length === 0) {
+        fail("anyOf", "must match at least one schema in anyOf");
+      }
+      passing.forEach((outcome) =>
+        mergeEvaluated(evaluated, outcome.evaluated)
+      );
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const passing = schema.oneOf
+        .map((subschema) => test(subschema, value, path))
+        .filter((outcome) => outcome.valid);
+      if (passing.length !== 1) {
+        fail(
+          "oneOf",
+          passing.length === 0
+            ? "must match exactly one schema in oneOf"
+            : `matches ${passing.length} schemas in oneOf, expected exactly one`
+        );
+      } else {
+        mergeEvaluated(evaluated, passing[0].evaluated);
+      }
+    }
+    if (schema.not !== undefined && test(schema.not, value, path).valid) {
+      fail("not", "must not match the schema in not");
+    }
+    if (schema.if !== undefined) {
+      const condition = test(schema.if, value, path);
+      if (condition.valid) {
+        mergeEvaluated(evaluated, condition.evaluated);
+        if (schema.then !== undefined) apply(schema.then);
+      } else if (schema.else !== undefined) {
+        apply(schema.else);
+      }
+    }
+
+    // Unevaluated keywords look at what everything above checked
+    if (Array.isArray(value) && schema.unevaluatedItems !== undefined) {
+      for (let i = evaluated.items; i < value.length; i++) {
+        if (schema.unevaluatedItems === false) {
+          fail("unevaluatedItems", `must not have unevaluated item ${i}`);
+        } else if (
+          !validate(schema.unevaluatedItems, value[i], [...path, i]).valid
+        ) {
+          valid = false;
+        }
+      }
+      evaluated.items = value.length;
+    }
+    if (isPlainObject(value) && schema.unevaluatedProperties !== undefined) {
+      Object.keys(value)
+        .filter((key) => !evaluated.properties.has(key))
+        .forEach((key) => {
+          if (schema.unevaluatedProperties === false) {
+            fail(
+              "unevaluatedProperties",
+              `must not have unevaluated property ${describe(key)}`
+            );
+          } else if (
+            !validate(schema.unevaluatedProperties, value[key], [...path, key])
+              .valid
+          ) {
+            valid = false;
+          }
+          evaluated.properties.add(key);
+        });
+    }
+
+    // A failing subschema may have been cut off by MAX_SCHEMA_ERRORS
+    if (errors.length > errorCount) valid = false;
+    return { valid, evaluated };
+  };
+
+  try {
+    validate(rootSchema, data, []);
+    return { ok: true, errors };
+  } catch (schemaError) {
+    return { ok: false, error: (schemaError as Error).message };
+  }
+};
+
+// Turn the $schema of a document into the path of a local schema file.
+// Relative references are resolved against the document's own file.
+export const resolveSchemaReference = (
+  reference: string,
+  documentPath: string | null
+): { ok: true; path: string } | { ok: false; error: string } => {
+  if (/^https?:\/\//i.test(reference)) {
+    return {
+      ok: false,
+      error: `"${reference}" is a remote schema; only local files are used`,
+    };
+  }
+  if (/^file:\/\//i.test(reference)) {
+    const path = decodeURIComponent(new URL(reference).pathname);
+    // file:///C:/dir on Windows has a leading slash before the drive
+    return { ok: true, path: path.replace(/^\/([a-zA-Z]:)/, "$1") };
+  }
+
+  const [path] = splitUri(reference);
+  if (/^([a-zA-Z]:)?[/\\]/.test(path)) return { ok: true, path };
+  if (!documentPath) {
+    return {
+      ok: false,
+      error: "Save the document first to resolve a relative $schema",
+    };
+  }
+
+  const separator = documentPath.includes("\\") ? "\\" : "/";
+  const parts = documentPath.split(/[/\\]/).slice(0, -1);
+  path.split(/[/\\]/).forEach((part) => {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  });
+  return { ok: true, path: parts.join(separator) };
+};
@@ -0,0 +1,279 @@
+import { appendTreePath, PathSegment } from "./query";
+
+// Any JSON value that can be expanded in the tree view
+export type JsonContainer = Record<string, unknown> | unknown[];
+
+// A single line of the flattened tree. Expanded containers produce an
+// "open" and a "close" row around their children, collapsed containers a
+// single "collapsed" row, everything else a "value" row.
+export type TreeRow = {
+  // JSON Pointer of the node, see toTreePath
+  path: string;
+  // Keys and indexes leading to the node, for editing it
+  segments: PathSegment[];
+  depth: number;
+  keyName?: string;
+  value: unknown;
+  kind: "open" | "close" | "collapsed" | "value";
+  isLast: boolean;
+};
+
+// Restricts the tree to a set of nodes, showing their ancestors for context
+// and their whole subtrees
+export type TreeFilter = {
+  paths: Set<string>;
+  ancestors: Set<string>;
+};
+
+// What the user sees of a document: expanded nodes and scroll position
+export type TreeViewState = {
+  expandedPaths: string[];
+  scrollTop: number;
+};
+
+// Documents with more nodes than this open collapsed beyond a fixed depth
+export const LARGE_DOCUMENT_NODE_LIMIT = 20000;
+
+export const isJsonContainer = (value: unknown): value is JsonContainer => {
+  return value !== null && typeof value === "object";
+};
+
+const isEmptyContainer = (value: JsonContainer): boolean => {
+  if (Array.isArray(value)) return value.length === 0;
+  for (const key in value) {
+    if (Object.prototype.hasOwnProperty.call(value, key)) return false;
+  }
+  return true;
+};
+
+// Get the path of every container in the JSON structure
+export const getAllPaths = (
+  value: unknown,
+  path = "",
+  paths: string[] = []
+): string[] => {
+  if (!isJsonContainer(value)) return paths;
+
+  paths.push(path);
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      getAllPaths(item, appendTreePath(path, index), paths)
+    );
+  } else {
+    Object.entries(value).forEach(([key, val]) =>
+      getAllPaths(val, appendTreePath(path, key), paths)
+    );
+  }
+
+  return paths;
+};
+
+// Get the path of every container shallower than maxDepth
+export const getPathsToDepth = (
+  value: unknown,
+  maxDepth: number,
+  path = "",
+  depth = 0,
+  paths: string[] = []
+): string[] => {
+  if (!isJsonContainer(value) || depth >= maxDepth) return paths;
+
+  paths.push(path);
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      getPathsToDepth(
+        item,
+        maxDepth,
+        appendTreePath(path, index),
+        depth + 1,
+        paths
+      )
+    );
+  } else {
+    Object.entries(value).forEach(([key, val]) =>
+      getPathsToDepth(
+        val,
+        maxDepth,
+        appendTreePath(path, key),
+        depth + 1,
+        paths
+      )
+    );
+  }
+
+  return paths;
+};
+
+// Count the nodes in a document, stopping once the limit is exceeded
+export const countNodes = (value: unknown, limit: number): number => {
+  let count = 0;
+  const stack: unknown[] = [value];
+
+  while (stack.length > 0 && count <= limit) {
+    const current = stack.pop();
+    count++;
+    if (isJsonContainer(current)) {
+      for (const child of Object.values(current)) {
+        stack.push(child);
+      }
+    }
+  }
+
+  return count;
+};
+
+// Small documents open fully expanded, large ones only down to expandDepth
+export const getInitialExpandedPaths = (
+  data: unknown,
+  expandDepth: number
+): string[] => {
+  if (countNodes(data, LARGE_DOCUMENT_NODE_LIMIT) > LARGE_DOCUMENT_NODE_LIMIT) {
+    return getPathsToDepth(data, expandDepth);
+  }
+  return getAllPaths(data);
+};
+
+// Get every ancestor path of a node, nearest first
+export const getParentPaths = (path: string): string[] => {
+  const parents: string[] = [];
+  let currentPath = path;
+  while (currentPath !== "") {
+    currentPath = currentPath.substring(0, currentPath.lastIndexOf("/"));
+    parents.push(currentPath);
+  }
+  return parents;
+};
+
+export const createTreeFilter = (paths: string[]): TreeFilter => {
+  const ancestors = new Set<string>();
+  paths.forEach((path) =>
+    getParentPaths(path).forEach((parentPath) => ancestors.add(parentPath))
+  );
+  return { paths: new Set(paths), ancestors };
+};
+
+// Rewrite paths after an edit moved nodes around. `moves` maps the old path
+// of each moved node to its new path, or to null when it was removed; paths
+// inside a moved node move along with it.
+export const remapPaths = (
+  paths: Iterable<string>,
+  moves: Map<string, string | null>
+): Set<string> => {
+  const result = new Set<string>();
+  for (const path of paths) {
+    let newPath: string | null = path;
+    for (const candidate of [path, ...getParentPaths(path)]) {
+      const target = moves.get(candidate);
+      if (target === undefined) continue;
+      newPath = target === null ? null : target + path.slice(candidate.length);
+      break;
+    }
+    if (newPath !== null) result.add(newPath);
+  }
+  return result;
+};
+
+// Flatten the visible part of the tree into rows, respecting expandedNodes
+// and, when given, only including the nodes allowed by the filter
+export const flattenTree = (
+  data: unknown,
+  expandedNodes: Set<string>,
+  filter?: TreeFilter | null
+): TreeRow[] => {
+  const rows: TreeRow[] = [];
+
+  const isVisible = (path: string) =>
+    !filter || filter.paths.has(path) || filter.ancestors.has(path);
+
+  const visit = (
+    value: unknown,
+    path: string,
+    segments: PathSegment[],
+    depth: number,
+    isLast: boolean,
+    keyName?: string,
+    insideMatch = !filter || filter.paths.has(path)
+  ) => {
+    if (!isJsonContainer(value) || isEmptyContainer(value)) {
+      rows.push({
+        path,
+        segments,
+        depth,
+        keyName,
+        value,
+        kind: "value",
+        isLast,
+      });
+      return;
+    }
+
+    if (!expandedNodes.has(path)) {
+      rows.push({
+        path,
+        segments,
+        depth,
+        keyName,
+        value,
+        kind: "collapsed",
+        isLast,
+      });
+      return;
+    }
+
+    rows.push({ path, segments, depth, keyName, value, kind: "open", isLast });
+    const children: {
+      item: unknown;
+      path: string;
+      segment: PathSegment;
+      key?: string;
+    }[] = (
+      Array.isArray(value)
+        ? value.map((item, index) => ({
+            item,
+            path: appendTreePath(path, index),
+            segment: index,
+          }))
+        : Object.keys(value).map((key) => ({
+            item: value[key],
+            path: appendTreePath(path, key),
+            segment: key,
+            key,
+          }))
+    ).filter((child) => insideMatch || isVisible(child.path));
+    children.forEach((child, index) =>
+      visit(
+        child.item,
+        child.path,
+        [...segments, child.segment],
+        depth + 1,
+        index === children.length - 1,
+        child.key,
+        insideMatch || filter?.paths.has(child.path)
+      )
+    );
+    rows.push({ path, segments, depth, keyName, value, kind: "close", isLast });
+  };
+
+  visit(data, "", [], 0, true);
+  return rows;
+};
+
+// What screen readers announce for a row: its key, its type and either its
+// number of children or its value, e.g. "items, array, 3 items"
+export const getRowLabel = (row: TreeRow): string => {
+  const lastSegment = row.segments[row.segments.length - 1];
+  const name =
+    row.keyName ??
+    (typeof lastSegment === "number" ? `item ${lastSegment}` : "root");
+
+  const { value } = row;
+  if (Array.isArray(value)) {
+    return `${name}, array, ${value.length} ${value.length === 1 ? "item" : "items"}`;
+  }
+  if (isJsonContainer(value)) {
+    const size = Object.keys(value).length;
+    return `${name}, object, ${size} ${size === 1 ? "property" : "properties"}`;
+  }
+  if (value === null) return `${name}, null`;
+  return `${name}, ${typeof value}, ${String(value)}`;
+};
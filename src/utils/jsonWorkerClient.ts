@@ -0,0 +1,316 @@
+import { JsonDialect } from "./jsonDialect";
+import { DiffOptions, DiffResult } from "./jsonDiff";
+import { TextRange } from "./jsonLocation";
+import { ValidationResult } from "./jsonSchema";
+import { PathSegment, QueryLanguage, QueryResult } from "./query";
+import { SearchOptions, SearchResult } from "./search";
+import { TypeOutputFormat } from "./typeInference";
+import {
+  ParseResult,
+  WorkerProgress,
+  WorkerRequest,
+  WorkerResponse,
+} from "../workers/protocol";
+
+type RequestOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: WorkerProgress) => void;
+};
+
+type WorkerResult =
+  | ParseResult
+  | SearchResult
+  | QueryResult
+  | DiffResult
+  | ValidationResult
+  | string
+  | PathSegment[]
+  | TextRange
+  | null;
+
+type WorkerDocument = { docId: string; data: unknown };
+
+type PendingRequest = {
+  message: Extract<WorkerRequest, { id: number }>;
+  // Documents the worker must hold before the request can run
+  documents?: WorkerDocument[];
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: WorkerProgress) => void;
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+// The exact object the worker currently holds for each document
+const workerDocuments = new Map<string, unknown>();
+
+const createAbortError = () =>
+  new DOMException("The operation was aborted", "AbortError");
+
+// Check whether a rejected request was cancelled rather than failed
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === "AbortError";
+};
+
+const handleResponse = (event: MessageEvent<WorkerResponse>) => {
+  const response = event.data;
+  const pending = pendingRequests.get(response.id);
+  if (!pending) return;
+
+  switch (response.type) {
+    case "progress":
+      pending.onProgress?.(response.progress);
+      break;
+    case "parsed":
+      pendingRequests.delete(response.id);
+      if (response.result.ok && pending.message.type === "parse") {
+        workerDocuments.set(pending.message.docId, response.result.value);
+      }
+      pending.resolve(response.result);
+      break;
+    case "searched":
+    case "queried":
+    case "diffed":
+    case "validated":
+    case "inferred":
+    case "foundPath":
+    case "foundRange":
+      pendingRequests.delete(response.id);
+      pending.resolve(response.result);
+      break;
+    case "cancelled":
+      pendingRequests.delete(response.id);
+      pending.reject(createAbortError());
+      break;
+    case "failed":
+      pendingRequests.delete(response.id);
+      pending.reject(new Error(response.error));
+      break;
+  }
+};
+
+// A worker that failed outside of a request answers nothing more. Its
+// requests fail rather than wait forever, and the next request starts a
+// new worker.
+const failWorker = (message: string) => {
+  worker?.terminate();
+  worker = null;
+  workerDocuments.clear();
+  const failed = [...pendingRequests.values()];
+  pendingRequests.clear();
+  failed.forEach((pending) => pending.reject(new Error(message)));
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/jsonWorker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = handleResponse;
+    worker.onerror = (event) => {
+      event.preventDefault();
+      failWorker(event.message || "The JSON worker stopped unexpectedly");
+    };
+    worker.onmessageerror = () =>
+      failWorker("A message from the JSON worker couldn't be read");
+  }
+  return worker;
+};
+
+const dispatch = (pending: PendingRequest) => {
+  const target = getWorker();
+
+  pending.documents?.forEach(({ docId, data }) => {
+    if (workerDocuments.get(docId) === data) return;
+    target.postMessage({ type: "load", docId, data } satisfies WorkerRequest);
+    workerDocuments.set(docId, data);
+  });
+
+  target.postMessage(pending.message);
+};
+
+// JSON.parse can't be interrupted, so a stale parse is aborted by replacing
+// the worker. Everything else still waiting is replayed on the new one.
+const restartWorker = () => {
+  worker?.terminate();
+  worker = null;
+  workerDocuments.clear();
+  pendingRequests.forEach(dispatch);
+};
+
+const cancelRequest = (id: number) => {
+  const pending = pendingRequests.get(id);
+  if (!pending) return;
+
+  pendingRequests.delete(id);
+  pending.reject(createAbortError());
+
+  if (pending.message.type === "parse") {
+    restartWorker();
+  } else if (pending.message.type === "search") {
+    worker?.postMessage({ type: "cancel", id } satisfies WorkerRequest);
+  }
+};
+
+const sendRequest = <T extends WorkerResult>(
+  message: PendingRequest["message"],
+  { signal, onProgress }: RequestOptions,
+  documents?: WorkerDocument[]
+): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const pending: PendingRequest = {
+      message,
+      documents,
+      resolve: resolve as (result: WorkerResult) => void,
+      reject,
+      onProgress,
+    };
+    pendingRequests.set(message.id, pending);
+    dispatch(pending);
+
+    signal?.addEventListener("abort", () => cancelRequest(message.id), {
+      once: true,
+    });
+  });
+};
+
+// Parse JSON text off the main thread. The worker keeps the parsed document
+// under docId so later searches don't need to send it again. Without a
+// dialect the worker detects it.
+export const parseJsonInWorker = (
+  docId: string,
+  text: string,
+  dialect: JsonDialect | null,
+  options: RequestOptions = {}
+): Promise<ParseResult> => {
+  return sendRequest<ParseResult>(
+    { type: "parse", id: nextRequestId++, docId, text, dialect },
+    options
+  );
+};
+
+// Search a document off the main thread, loading it into the worker first if
+// the worker doesn't already hold this exact value
+export const searchJsonInWorker = (
+  docId: string,
+  data: unknown,
+  searchTerm: string,
+  searchOptions: SearchOptions,
+  options: RequestOptions = {}
+): Promise<SearchResult> => {
+  return sendRequest<SearchResult>(
+    {
+      type: "search",
+      id: nextRequestId++,
+      docId,
+      searchTerm,
+      options: searchOptions,
+    },
+    options,
+    [{ docId, data }]
+  );
+};
+
+// Run a JSONPath or jq query against a document off the main thread
+export const queryJsonInWorker = (
+  docId: string,
+  data: unknown,
+  language: QueryLanguage,
+  query: string,
+  options: RequestOptions = {}
+): Promise<QueryResult> => {
+  return sendRequest<QueryResult>(
+    { type: "query", id: nextRequestId++, docId, language, query },
+    options,
+    [{ docId, data }]
+  );
+};
+
+// Compare two documents off the main thread
+export const diffJsonInWorker = (
+  left: WorkerDocument,
+  right: WorkerDocument,
+  diffOptions: DiffOptions,
+  options: RequestOptions = {}
+): Promise<DiffResult> => {
+  return sendRequest<DiffResult>(
+    {
+      type: "diff",
+      id: nextRequestId++,
+      leftDocId: left.docId,
+      rightDocId: right.docId,
+      options: diffOptions,
+    },
+    options,
+    [left, right]
+  );
+};
+
+// Validate a document against a JSON Schema off the main thread
+export const validateJsonInWorker = (
+  docId: string,
+  data: unknown,
+  schema: unknown,
+  options: RequestOptions = {}
+): Promise<ValidationResult> => {
+  return sendRequest<ValidationResult>(
+    { type: "validate", id: nextRequestId++, docId, schema },
+    options,
+    [{ docId, data }]
+  );
+};
+
+// Generate a JSON Schema, TypeScript or Zod description of a document off
+// the main thread
+export const inferTypesInWorker = (
+  docId: string,
+  data: unknown,
+  format: TypeOutputFormat,
+  rootName: string,
+  options: RequestOptions = {}
+): Promise<string> => {
+  return sendRequest<string>(
+    { type: "infer", id: nextRequestId++, docId, format, rootName },
+    options,
+    [{ docId, data }]
+  );
+};
+
+// The path of the node at an offset of a document's text, scanned off the
+// main thread since the text may be large
+export const findPathInWorker = (
+  text: string,
+  dialect: JsonDialect,
+  offset: number,
+  options: RequestOptions = {}
+): Promise<PathSegment[]> => {
+  return sendRequest<PathSegment[]>(
+    { type: "findPath", id: nextRequestId++, text, dialect, offset },
+    options
+  );
+};
+
+// The text of the node at a path, or null when it can't be found
+export const findRangeInWorker = (
+  text: string,
+  dialect: JsonDialect,
+  path: PathSegment[],
+  options: RequestOptions = {}
+): Promise<TextRange | null> => {
+  return sendRequest<TextRange | null>(
+    { type: "findRange", id: nextRequestId++, text, dialect, path },
+    options
+  );
+};
+
+// Drop a document the worker no longer needs, e.g. when its tab is closed
+export const releaseWorkerDocument = (docId: string) => {
+  workerDocuments.delete(docId);
+  worker?.postMessage({ type: "release", docId } satisfies WorkerRequest);
+};
@@ -0,0 +1,103 @@
+import { evaluateQuery } from "./query";
+import { hasOwn, isPlainObject, PathSegment, toTreePath } from "./query/common";
+
+// Ways of writing the location of a node, for copying it elsewhere
+
+export type PathSyntax = "jsonpath" | "javascript" | "jq" | "pointer";
+
+export const PATH_SYNTAXES: { value: PathSyntax; label: string }[] = [
+  { value: "jsonpath", label: "JSONPath" },
+  { value: "javascript", label: "JavaScript" },
+  { value: "jq", label: "jq" },
+  { value: "pointer", label: "JSON Pointer" },
+];
+
+const JS_IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const JQ_IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+// Keys that are identifiers use dot notation, others brackets
+const formatAccessors = (path: PathSegment[], identifier: RegExp) =>
+  path
+    .map((segment) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : identifier.test(segment)
+          ? `.${segment}`
+          : `[${JSON.stringify(segment)}]`
+    )
+    .join("");
+
+// Write a path in the given syntax: $.items[3].name, data.items[3].name,
+// .items[3].name or /items/3/name
+export const formatPath = (path: PathSegment[], syntax: PathSyntax): string => {
+  switch (syntax) {
+    case "jsonpath":
+      return "$" + formatAccessors(path, JS_IDENTIFIER);
+    case "javascript":
+      return "data" + formatAccessors(path, JS_IDENTIFIER);
+    case "jq": {
+      // A path starting with a bracket still needs the leading dot: .[0]
+      const accessors = formatAccessors(path, JQ_IDENTIFIER);
+      return accessors.startsWith(".") ? accessors : "." + accessors;
+    }
+    case "pointer":
+      // Tree paths are JSON Pointers already
+      return toTreePath(path);
+  }
+};
+
+export type PathResult =
+  { ok: true; path: PathSegment[] } | { ok: false; error: string };
+
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/;
+
+// Follow a JSON Pointer through the document; its tokens are strings, so
+// array indexes are only recognised once the array is reached
+const resolvePointer = (data: unknown, pointer: string): PathResult => {
+  const tokens = pointer === "" ? [] : pointer.slice(1).split("/");
+  const path: PathSegment[] = [];
+  let node = data;
+  for (const token of tokens) {
+    const key = token.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (Array.isArray(node) && ARRAY_INDEX.test(key)) {
+      const index = Number(key);
+      if (index >= node.length) {
+        return {
+          ok: false,
+          error: `No item ${index} at ${toTreePath(path) || "the root"}`,
+        };
+      }
+      path.push(index);
+      node = node[index];
+    } else if (isPlainObject(node) && hasOwn(node, key)) {
+      path.push(key);
+      node = node[key];
+    } else {
+      return {
+        ok: false,
+        error: `No "${key}" at ${toTreePath(path) || "the root"}`,
+      };
+    }
+  }
+  return { ok: true, path };
+};
+
+// Find the node a JSONPath ($.items[3]) or JSON Pointer (/items/3) points
+// to. A JSONPath selecting several nodes goes to the first of them.
+export const resolvePath = (data: unknown, text: string): PathResult => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("$")) {
+    const result = evaluateQuery("jsonpath", trimmed, data);
+    if (!result.ok) return result;
+    const match = result.matches.find(({ path }) => path !== null);
+    return match?.path
+      ? { ok: true, path: match.path }
+      : { ok: false, error: "No node matches this path" };
+  }
+  // Pointers aren't trimmed: keys may start or end with spaces
+  if (text === "" || text.startsWith("/")) return resolvePointer(data, text);
+  return {
+    ok: false,
+    error: "Paths start with $ (JSONPath) or / (JSON Pointer)",
+  };
+};
@@ -0,0 +1,90 @@
+import { unescapeString } from "../jsonParser";
+
+export type QueryLanguage = "jsonpath" | "jq";
+
+// A step into a document: an object key or an array index
+export type PathSegment = string | number;
+
+// A value produced by a query. Values that exist in the queried document
+// carry their location; derived values (e.g. from map or keys) have none.
+export type QueryMatch = {
+  value: unknown;
+  path: PathSegment[] | null;
+};
+
+export type QueryResult =
+  { ok: true; matches: QueryMatch[] } | { ok: false; error: string };
+
+export const isPlainObject = (
+  value: unknown
+): value is Record<string, unknown> => {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+};
+
+export const hasOwn = (value: object, key: string): boolean => {
+  return Object.prototype.hasOwnProperty.call(value, key);
+};
+
+// The tree view identifies nodes by JSON Pointer (RFC 6901): "" is the
+// root and "/items/3/name" a node below it. "~" and "/" in keys are escaped
+// as "~0" and "~1", so keys containing dots or slashes stay unambiguous.
+export const appendTreePath = (path: string, segment: PathSegment): string =>
+  `${path}/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+
+// Convert query path segments into the path used by the tree view
+export const toTreePath = (path: PathSegment[]): string => {
+  return path.reduce<string>(
+    (treePath, segment) => appendTreePath(treePath, segment),
+    ""
+  );
+};
+
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((item, index) => deepEqual(item, b[index]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasOwn(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+// Read a single- or double-quoted string literal starting at `start`
+export const readStringLiteral = (
+  source: string,
+  start: number
+): { value: string; end: number } => {
+  const quote = source[start];
+  let end = start + 1;
+
+  while (end < source.length && source[end] !== quote) {
+    end += source[end] === "\\" ? 2 : 1;
+  }
+  if (end >= source.length) {
+    throw new Error(`Unterminated string at position ${start + 1}`);
+  }
+
+  const value = unescapeString(source.slice(start + 1, end));
+  if (value === null) {
+    throw new Error(`Invalid string at position ${start + 1}`);
+  }
+  return { value, end: end + 1 };
+};
+
+// Read a JSON number literal starting at `start`, if there is one
+export const readNumberLiteral = (
+  source: string,
+  start: number
+): { value: number; end: number } | null => {
+  const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(start));
+  if (!match) return null;
+  return { value: Number(match[0]), end: start + match[0].length };
+};
@@ -0,0 +1,28 @@
+import { QueryLanguage, QueryResult } from "./common";
+import { evaluateJq } from "./jq";
+import { evaluateJsonPath } from "./jsonPath";
+
+export type {
+  PathSegment,
+  QueryLanguage,
+  QueryMatch,
+  QueryResult,
+} from "./common";
+export { appendTreePath, toTreePath } from "./common";
+
+// Run a JSONPath or jq query, reporting syntax and runtime errors as results
+export const evaluateQuery = (
+  language: QueryLanguage,
+  query: string,
+  data: unknown
+): QueryResult => {
+  try {
+    const matches =
+      language === "jsonpath"
+        ? evaluateJsonPath(query, data)
+        : evaluateJq(query, data);
+    return { ok: true, matches };
+  } catch (queryError) {
+    return { ok: false, error: (queryError as Error).message };
+  }
+};
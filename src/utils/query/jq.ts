@@ -0,0 +1,548 @@
+import {
+  deepEqual,
+  hasOwn,
+  isPlainObject,
+  PathSegment,
+  QueryMatch,
+  readNumberLiteral,
+  readStringLiteral,
+} from "./common";
+
+// A subset of jq: paths (.foo, .[0], .[], .[1:3], ..), pipes, commas,
+// comparisons, and/or, array construction, the ? operator and the builtins
+// listed in BUILTINS, e.g. .items[] | select(.status == "failed") | .price
+
+type BinaryOperator = "==" | "!=" | "<=" | ">=" | "<" | ">" | "and" | "or";
+
+type JqNode =
+  | { type: "identity" }
+  | { type: "recurse" }
+  | { type: "literal"; value: unknown }
+  | { type: "array"; body: JqNode | null }
+  | { type: "field"; target: JqNode; name: string }
+  | { type: "index"; target: JqNode; index: JqNode }
+  | {
+      type: "slice";
+      target: JqNode;
+      start: JqNode | null;
+      end: JqNode | null;
+    }
+  | { type: "iterate"; target: JqNode }
+  | { type: "try"; body: JqNode }
+  | { type: "pipe" | "comma"; left: JqNode; right: JqNode }
+  | { type: "binary"; operator: BinaryOperator; left: JqNode; right: JqNode }
+  | { type: "call"; name: string; args: JqNode[] };
+
+// Values flowing through a jq program, with their location when known
+type Item = QueryMatch;
+
+const COMPARISON_OPERATORS: BinaryOperator[] = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+];
+
+const parseJq = (query: string): JqNode => {
+  const source = query.trim();
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos + 1}`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  const peek = (text: string) => {
+    skipWhitespace();
+    return source.startsWith(text, pos);
+  };
+
+  const consume = (text: string) => {
+    if (!peek(text)) fail(`Expected "${text}"`);
+    pos += text.length;
+  };
+
+  const readIdentifier = (): string | null => {
+    const match = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(source.slice(pos));
+    if (!match) return null;
+    pos += match[0].length;
+    return match[0];
+  };
+
+  // Check for a keyword without swallowing identifiers that start with it
+  const peekKeyword = (keyword: string) =>
+    peek(keyword) && !/[a-zA-Z0-9_]/.test(source[pos + keyword.length] ?? "");
+
+  const parsePipe = (): JqNode => {
+    const left = parseComma();
+    if (peek("|")) {
+      pos++;
+      return { type: "pipe", left, right: parsePipe() };
+    }
+    return left;
+  };
+
+  const parseComma = (): JqNode => {
+    let left = parseOr();
+    while (peek(",")) {
+      pos++;
+      left = { type: "comma", left, right: parseOr() };
+    }
+    return left;
+  };
+
+  const parseOr = (): JqNode => {
+    let left = parseAnd();
+    while (peekKeyword("or")) {
+      pos += 2;
+      left = { type: "binary", operator: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): JqNode => {
+    let left = parseComparison();
+    while (peekKeyword("and")) {
+      pos += 3;
+      left = {
+        type: "binary",
+        operator: "and",
+        left,
+        right: parseComparison(),
+      };
+    }
+    return left;
+  };
+
+  const parseComparison = (): JqNode => {
+    const left = parsePostfix();
+    const operator = COMPARISON_OPERATORS.find((op) => peek(op));
+    if (!operator) return left;
+    pos += operator.length;
+    return { type: "binary", operator, left, right: parsePostfix() };
+  };
+
+  // Bracket suffix: .[], .[expr] or .[start:end]
+  const parseBracket = (target: JqNode): JqNode => {
+    consume("[");
+    if (peek("]")) {
+      pos++;
+      return { type: "iterate", target };
+    }
+
+    const start = peek(":") ? null : parsePipe();
+    if (peek(":")) {
+      pos++;
+      const end = peek("]") ? null : parsePipe();
+      consume("]");
+      return { type: "slice", target, start, end };
+    }
+
+    consume("]");
+    return { type: "index", target, index: start! };
+  };
+
+  // Field name after a dot: .foo or ."foo"
+  const parseFieldName = (): string | null => {
+    if (source[pos] === '"') {
+      const literal = readStringLiteral(source, pos);
+      pos = literal.end;
+      return literal.value;
+    }
+    return readIdentifier();
+  };
+
+  const parsePostfix = (): JqNode => {
+    let node = parsePrimary();
+
+    for (;;) {
+      if (peek("?")) {
+        pos++;
+        node = { type: "try", body: node };
+      } else if (peek("[")) {
+        node = parseBracket(node);
+      } else if (peek(".") && !peek("..")) {
+        pos++;
+        if (source[pos] === "[") {
+          node = parseBracket(node);
+        } else {
+          const name = parseFieldName();
+          if (name === null) return fail("Expected a field name");
+          node = { type: "field", target: node, name };
+        }
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parsePrimary = (): JqNode => {
+    if (peek("..")) {
+      pos += 2;
+      return { type: "recurse" };
+    }
+
+    if (peek(".")) {
+      pos++;
+      if (source[pos] === "[") return parseBracket({ type: "identity" });
+      const name = parseFieldName();
+      return name === null
+        ? { type: "identity" }
+        : { type: "field", target: { type: "identity" }, name };
+    }
+
+    if (peek("(")) {
+      pos++;
+      const body = parsePipe();
+      consume(")");
+      return body;
+    }
+
+    if (peek("[")) {
+      pos++;
+      if (peek("]")) {
+        pos++;
+        return { type: "array", body: null };
+      }
+      const body = parsePipe();
+      consume("]");
+      return { type: "array", body };
+    }
+
+    if (peek('"')) {
+      const literal = readStringLiteral(source, pos);
+      pos = literal.end;
+      return { type: "literal", value: literal.value };
+    }
+
+    const number = readNumberLiteral(source, pos);
+    if (number) {
+      pos = number.end;
+      return { type: "literal", value: number.value };
+    }
+
+    const name = readIdentifier();
+    if (name === null) return fail("Unexpected input");
+    if (name === "true" || name === "false") {
+      return { type: "literal", value: name === "true" };
+    }
+    if (name === "null") return { type: "literal", value: null };
+
+    const args: JqNode[] = [];
+    if (peek("(")) {
+      pos++;
+      args.push(parsePipe());
+      while (peek(";")) {
+        pos++;
+        args.push(parsePipe());
+      }
+      consume(")");
+    }
+    return { type: "call", name, args };
+  };
+
+  const program = parsePipe();
+  skipWhitespace();
+  if (pos < source.length) fail(`Unexpected "${source[pos]}"`);
+  return program;
+};
+
+const getTypeName = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const isTruthy = (value: unknown) => value !== null && value !== false;
+
+const derived = (value: unknown): Item => ({ value, path: null });
+
+const child = (item: Item, key: PathSegment, value: unknown): Item => ({
+  value,
+  path: item.path ? [...item.path, key] : null,
+});
+
+// jq orders values null < false < true < numbers < strings < arrays < objects
+const TYPE_ORDER = ["null", "false", "true", "number", "string", "array"];
+
+const getTypeRank = (value: unknown): number => {
+  if (value === false || value === true) return TYPE_ORDER.indexOf(`${value}`);
+  const index = TYPE_ORDER.indexOf(getTypeName(value));
+  return index === -1 ? TYPE_ORDER.length : index;
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const rankDifference = getTypeRank(a) - getTypeRank(b);
+  if (rankDifference !== 0) return rankDifference;
+
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let index = 0; index < Math.min(a.length, b.length); index++) {
+      const difference = compareValues(a[index], b[index]);
+      if (difference !== 0) return difference;
+    }
+    return a.length - b.length;
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a).sort();
+    const keysB = Object.keys(b).sort();
+    const keyDifference = compareValues(keysA, keysB);
+    if (keyDifference !== 0) return keyDifference;
+    for (const key of keysA) {
+      const difference = compareValues(a[key], b[key]);
+      if (difference !== 0) return difference;
+    }
+  }
+  return 0;
+};
+
+const compare = (operator: BinaryOperator, a: unknown, b: unknown): boolean => {
+  switch (operator) {
+    case "==":
+      return deepEqual(a, b);
+    case "!=":
+      return !deepEqual(a, b);
+    case "<":
+      return compareValues(a, b) < 0;
+    case "<=":
+      return compareValues(a, b) <= 0;
+    case ">":
+      return compareValues(a, b) > 0;
+    default:
+      return compareValues(a, b) >= 0;
+  }
+};
+
+const getField = (item: Item, name: string): Item => {
+  if (item.value === null) return derived(null);
+  if (!isPlainObject(item.value)) {
+    throw new Error(`Cannot index ${getTypeName(item.value)} with "${name}"`);
+  }
+  return hasOwn(item.value, name)
+    ? child(item, name, item.value[name])
+    : derived(null);
+};
+
+const getIndex = (item: Item, index: unknown): Item => {
+  if (typeof index === "string") return getField(item, index);
+  if (item.value === null) return derived(null);
+  if (!Array.isArray(item.value) || typeof index !== "number") {
+    throw new Error(
+      `Cannot index ${getTypeName(item.value)} with ${getTypeName(index)}`
+    );
+  }
+
+  const position = Math.floor(index < 0 ? item.value.length + index : index);
+  return position >= 0 && position < item.value.length
+    ? child(item, position, item.value[position])
+    : derived(null);
+};
+
+const getSlice = (item: Item, start: unknown, end: unknown): Item => {
+  const { value } = item;
+  if (value === null) return derived(null);
+  if (!Array.isArray(value) && typeof value !== "string") {
+    throw new Error(`Cannot slice ${getTypeName(value)}`);
+  }
+  const from = typeof start === "number" ? start : undefined;
+  const to = typeof end === "number" ? end : undefined;
+  return derived(value.slice(from, to));
+};
+
+const iterate = (item: Item): Item[] => {
+  if (Array.isArray(item.value)) {
+    return item.value.map((value, index) => child(item, index, value));
+  }
+  if (isPlainObject(item.value)) {
+    return Object.entries(item.value).map(([key, value]) =>
+      child(item, key, value)
+    );
+  }
+  throw new Error(`Cannot iterate over ${getTypeName(item.value)}`);
+};
+
+const recurse = (item: Item, items: Item[] = []): Item[] => {
+  items.push(item);
+  if (Array.isArray(item.value) || isPlainObject(item.value)) {
+    iterate(item).forEach((next) => recurse(next, items));
+  }
+  return items;
+};
+
+type Builtin = {
+  arity: number;
+  apply: (input: Item, args: JqNode[]) => Item[];
+};
+
+const BUILTINS: Record<string, Builtin> = {
+  empty: { arity: 0, apply: () => [] },
+  not: { arity: 0, apply: (input) => [derived(!isTruthy(input.value))] },
+  type: { arity: 0, apply: (input) => [derived(getTypeName(input.value))] },
+  length: {
+    arity: 0,
+    apply: ({ value }) => {
+      if (value === null) return [derived(0)];
+      if (typeof value === "number") return [derived(Math.abs(value))];
+      if (typeof value === "string" || Array.isArray(value)) {
+        return [derived(value.length)];
+      }
+      if (isPlainObject(value)) return [derived(Object.keys(value).length)];
+      throw new Error(`${getTypeName(value)} has no length`);
+    },
+  },
+  keys: {
+    arity: 0,
+    apply: ({ value }) => {
+      if (Array.isArray(value))
+        return [derived(value.map((_, index) => index))];
+      if (isPlainObject(value)) return [derived(Object.keys(value).sort())];
+      throw new Error(`${getTypeName(value)} has no keys`);
+    },
+  },
+  keys_unsorted: {
+    arity: 0,
+    apply: ({ value }) => {
+      if (Array.isArray(value))
+        return [derived(value.map((_, index) => index))];
+      if (isPlainObject(value)) return [derived(Object.keys(value))];
+      throw new Error(`${getTypeName(value)} has no keys`);
+    },
+  },
+  has: {
+    arity: 1,
+    apply: (input, [key]) =>
+      evaluate(key, input).map(({ value: k }) => {
+        if (isPlainObject(input.value) && typeof k === "string") {
+          return derived(hasOwn(input.value, k));
+        }
+        if (Array.isArray(input.value) && typeof k === "number") {
+          return derived(k >= 0 && k < input.value.length);
+        }
+        throw new Error(
+          `Cannot check whether ${getTypeName(input.value)} has a ${getTypeName(k)} key`
+        );
+      }),
+  },
+  select: {
+    arity: 1,
+    apply: (input, [condition]) =>
+      evaluate(condition, input)
+        .filter((result) => isTruthy(result.value))
+        .map(() => input),
+  },
+  map: {
+    arity: 1,
+    apply: (input, [mapper]) => [
+      derived(
+        iterate(input).flatMap((item) =>
+          evaluate(mapper, item).map((result) => result.value)
+        )
+      ),
+    ],
+  },
+  values: {
+    arity: 0,
+    apply: (input) => (input.value === null ? [] : [input]),
+  },
+  first: {
+    arity: 0,
+    apply: (input) => [getIndex(input, 0)],
+  },
+  last: {
+    arity: 0,
+    apply: (input) => [getIndex(input, -1)],
+  },
+};
+
+const evaluate = (node: JqNode, input: Item): Item[] => {
+  switch (node.type) {
+    case "identity":
+      return [input];
+    case "recurse":
+      return recurse(input);
+    case "literal":
+      return [derived(node.value)];
+    case "array":
+      return [
+        derived(
+          node.body ? evaluate(node.body, input).map((item) => item.value) : []
+        ),
+      ];
+    case "field":
+      return evaluate(node.target, input).map((item) =>
+        getField(item, node.name)
+      );
+    case "index": {
+      const indexes = evaluate(node.index, input);
+      return evaluate(node.target, input).flatMap((item) =>
+        indexes.map((index) => getIndex(item, index.value))
+      );
+    }
+    case "slice": {
+      const start = node.start ? evaluate(node.start, input)[0]?.value : null;
+      const end = node.end ? evaluate(node.end, input)[0]?.value : null;
+      return evaluate(node.target, input).map((item) =>
+        getSlice(item, start, end)
+      );
+    }
+    case "iterate":
+      return evaluate(node.target, input).flatMap(iterate);
+    case "try":
+      try {
+        return evaluate(node.body, input);
+      } catch {
+        return [];
+      }
+    case "pipe":
+      return evaluate(node.left, input).flatMap((item) =>
+        evaluate(node.right, item)
+      );
+    case "comma":
+      return [...evaluate(node.left, input), ...evaluate(node.right, input)];
+    case "binary": {
+      const { operator } = node;
+      if (operator === "and" || operator === "or") {
+        return evaluate(node.left, input).flatMap((left) => {
+          if (operator === "and" && !isTruthy(left.value)) {
+            return [derived(false)];
+          }
+          if (operator === "or" && isTruthy(left.value)) {
+            return [derived(true)];
+          }
+          return evaluate(node.right, input).map((right) =>
+            derived(isTruthy(right.value))
+          );
+        });
+      }
+
+      const rights = evaluate(node.right, input);
+      return evaluate(node.left, input).flatMap((left) =>
+        rights.map((right) =>
+          derived(compare(operator, left.value, right.value))
+        )
+      );
+    }
+    case "call": {
+      const builtin = BUILTINS[node.name];
+      if (!builtin || builtin.arity !== node.args.length) {
+        throw new Error(`${node.name}/${node.args.length} is not defined`);
+      }
+      return builtin.apply(input, node.args);
+    }
+  }
+};
+
+// Evaluate a jq program, returning each output with its path when it points
+// into the input document
+export const evaluateJq = (query: string, data: unknown): QueryMatch[] => {
+  const program = parseJq(query);
+  return evaluate(program, { value: data, path: [] });
+};
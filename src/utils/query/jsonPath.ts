@@ -0,0 +1,462 @@
+import {
+  deepEqual,
+  hasOwn,
+  isPlainObject,
+  PathSegment,
+  QueryMatch,
+  readNumberLiteral,
+  readStringLiteral,
+} from "./common";
+
+// JSONPath (RFC 9535) with the usual extensions: dot and bracket notation,
+// wildcards, recursive descent, slices, unions and filter expressions such
+// as $.items[?(@.status == 'failed' && @.price > 10)].price
+
+type Selector =
+  | { type: "name"; name: string }
+  | { type: "index"; index: number }
+  | { type: "wildcard" }
+  | { type: "slice"; start?: number; end?: number; step?: number }
+  | { type: "filter"; expression: FilterExpression };
+
+type Segment = {
+  descendant: boolean;
+  selectors: Selector[];
+};
+
+type Operand =
+  | { type: "literal"; value: unknown }
+  | { type: "query"; root: "@" | "$"; segments: Segment[] };
+
+type ComparisonOperator = "==" | "!=" | "<=" | ">=" | "<" | ">" | "=~";
+
+type FilterExpression =
+  | { type: "or" | "and"; left: FilterExpression; right: FilterExpression }
+  | { type: "not"; operand: FilterExpression }
+  | { type: "exists"; query: Extract<Operand, { type: "query" }> }
+  | {
+      type: "compare";
+      operator: ComparisonOperator;
+      left: Operand;
+      right: Operand;
+    };
+
+type Node = {
+  path: PathSegment[];
+  value: unknown;
+};
+
+// Longer operators first so that "<=" isn't read as "<"
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "=~",
+];
+
+const parseJsonPath = (query: string): Segment[] => {
+  const source = query.trim();
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos + 1}`);
+  };
+
+  const peek = (text: string) => source.startsWith(text, pos);
+
+  const consume = (text: string) => {
+    if (!peek(text)) fail(`Expected "${text}"`);
+    pos += text.length;
+  };
+
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  const readInteger = (): number | undefined => {
+    const match = /^-?\d+/.exec(source.slice(pos));
+    if (!match) return undefined;
+    pos += match[0].length;
+    return Number(match[0]);
+  };
+
+  const parseSegments = (): Segment[] => {
+    const segments: Segment[] = [];
+
+    for (;;) {
+      if (peek("..")) {
+        pos += 2;
+        segments.push({
+          descendant: true,
+          selectors: peek("[") ? parseBracket() : [parseDotSelector()],
+        });
+      } else if (peek(".")) {
+        pos++;
+        segments.push({ descendant: false, selectors: [parseDotSelector()] });
+      } else if (peek("[")) {
+        segments.push({ descendant: false, selectors: parseBracket() });
+      } else {
+        return segments;
+      }
+    }
+  };
+
+  const parseDotSelector = (): Selector => {
+    if (peek("*")) {
+      pos++;
+      return { type: "wildcard" };
+    }
+
+    const match = /^[^.[\]\s()=!<>&|,'"]+/.exec(source.slice(pos));
+    if (!match) return fail("Expected a property name");
+    pos += match[0].length;
+    return { type: "name", name: match[0] };
+  };
+
+  const parseBracket = (): Selector[] => {
+    consume("[");
+    const selectors: Selector[] = [];
+
+    for (;;) {
+      skipWhitespace();
+      selectors.push(parseBracketSelector());
+      skipWhitespace();
+      if (!peek(",")) break;
+      pos++;
+    }
+
+    consume("]");
+    return selectors;
+  };
+
+  const parseBracketSelector = (): Selector => {
+    if (peek("*")) {
+      pos++;
+      return { type: "wildcard" };
+    }
+
+    if (peek("'") || peek('"')) {
+      const literal = readStringLiteral(source, pos);
+      pos = literal.end;
+      return { type: "name", name: literal.value };
+    }
+
+    if (peek("?")) {
+      pos++;
+      skipWhitespace();
+      return { type: "filter", expression: parseOr() };
+    }
+
+    const start = readInteger();
+    skipWhitespace();
+    if (!peek(":")) {
+      if (start === undefined) return fail("Expected a selector");
+      return { type: "index", index: start };
+    }
+
+    pos++;
+    skipWhitespace();
+    const end = readInteger();
+    skipWhitespace();
+    let step: number | undefined;
+    if (peek(":")) {
+      pos++;
+      skipWhitespace();
+      step = readInteger();
+    }
+    return { type: "slice", start, end, step };
+  };
+
+  const parseOr = (): FilterExpression => {
+    let left = parseAnd();
+    skipWhitespace();
+    while (peek("||")) {
+      pos += 2;
+      left = { type: "or", left, right: parseAnd() };
+      skipWhitespace();
+    }
+    return left;
+  };
+
+  const parseAnd = (): FilterExpression => {
+    let left = parseUnary();
+    skipWhitespace();
+    while (peek("&&")) {
+      pos += 2;
+      left = { type: "and", left, right: parseUnary() };
+      skipWhitespace();
+    }
+    return left;
+  };
+
+  const parseUnary = (): FilterExpression => {
+    skipWhitespace();
+    if (peek("!") && !peek("!=")) {
+      pos++;
+      return { type: "not", operand: parseUnary() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): FilterExpression => {
+    skipWhitespace();
+    if (peek("(")) {
+      pos++;
+      const expression = parseOr();
+      skipWhitespace();
+      consume(")");
+      return expression;
+    }
+
+    const left = parseOperand();
+    skipWhitespace();
+
+    const operator = COMPARISON_OPERATORS.find((op) => peek(op));
+    if (!operator) {
+      if (left.type !== "query") return fail("Expected a comparison");
+      return { type: "exists", query: left };
+    }
+
+    pos += operator.length;
+    skipWhitespace();
+    const right = operator === "=~" ? parseRegex() : parseOperand();
+    return { type: "compare", operator, left, right };
+  };
+
+  const parseOperand = (): Operand => {
+    if (peek("@") || peek("$")) {
+      const root = source[pos] as "@" | "$";
+      pos++;
+      return { type: "query", root, segments: parseSegments() };
+    }
+
+    if (peek("'") || peek('"')) {
+      const literal = readStringLiteral(source, pos);
+      pos = literal.end;
+      return { type: "literal", value: literal.value };
+    }
+
+    for (const [keyword, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (peek(keyword)) {
+        pos += keyword.length;
+        return { type: "literal", value };
+      }
+    }
+
+    const number = readNumberLiteral(source, pos);
+    if (!number) return fail("Expected a value");
+    pos = number.end;
+    return { type: "literal", value: number.value };
+  };
+
+  const parseRegex = (): Operand => {
+    const match = /^\/((?:\\.|[^/\\])*)\/([a-z]*)/.exec(source.slice(pos));
+    if (!match) return fail("Expected a /regex/");
+    pos += match[0].length;
+    try {
+      return { type: "literal", value: new RegExp(match[1], match[2]) };
+    } catch (regexError) {
+      return fail((regexError as Error).message);
+    }
+  };
+
+  if (peek("$")) {
+    pos++;
+  } else if (!peek(".") && !peek("[")) {
+    fail('A JSONPath query starts with "$"');
+  }
+
+  const segments = parseSegments();
+  if (pos < source.length) fail(`Unexpected "${source[pos]}"`);
+  return segments;
+};
+
+const getChildren = (node: Node): Node[] => {
+  if (Array.isArray(node.value)) {
+    return node.value.map((value, index) => ({
+      path: [...node.path, index],
+      value,
+    }));
+  }
+  if (isPlainObject(node.value)) {
+    return Object.entries(node.value).map(([key, value]) => ({
+      path: [...node.path, key],
+      value,
+    }));
+  }
+  return [];
+};
+
+// The node itself followed by all of its descendants, in document order
+const getDescendants = (node: Node, nodes: Node[] = []): Node[] => {
+  nodes.push(node);
+  getChildren(node).forEach((child) => getDescendants(child, nodes));
+  return nodes;
+};
+
+const getSliceIndices = (
+  length: number,
+  { start, end, step = 1 }: Extract<Selector, { type: "slice" }>
+): number[] => {
+  const indices: number[] = [];
+  if (step === 0) return indices;
+
+  const normalize = (index: number) => (index >= 0 ? index : length + index);
+
+  if (step > 0) {
+    const lower = Math.min(Math.max(normalize(start ?? 0), 0), length);
+    const upper = Math.min(Math.max(normalize(end ?? length), 0), length);
+    for (let index = lower; index < upper; index += step) indices.push(index);
+  } else {
+    const upper = Math.min(
+      Math.max(normalize(start ?? length - 1), -1),
+      length - 1
+    );
+    const lower = Math.min(
+      Math.max(end === undefined ? -1 : normalize(end), -1),
+      length - 1
+    );
+    for (let index = upper; index > lower; index += step) indices.push(index);
+  }
+
+  return indices;
+};
+
+const applySelector = (node: Node, selector: Selector, root: Node): Node[] => {
+  const { value } = node;
+
+  switch (selector.type) {
+    case "name":
+      return isPlainObject(value) && hasOwn(value, selector.name)
+        ? [{ path: [...node.path, selector.name], value: value[selector.name] }]
+        : [];
+    case "index": {
+      if (!Array.isArray(value)) return [];
+      const index =
+        selector.index >= 0 ? selector.index : value.length + selector.index;
+      return index >= 0 && index < value.length
+        ? [{ path: [...node.path, index], value: value[index] }]
+        : [];
+    }
+    case "wildcard":
+      return getChildren(node);
+    case "slice":
+      if (!Array.isArray(value)) return [];
+      return getSliceIndices(value.length, selector).map((index) => ({
+        path: [...node.path, index],
+        value: value[index],
+      }));
+    case "filter":
+      return getChildren(node).filter((child) =>
+        testFilter(selector.expression, child, root)
+      );
+  }
+};
+
+const applySegments = (
+  nodes: Node[],
+  segments: Segment[],
+  root: Node
+): Node[] => {
+  return segments.reduce(
+    (current, segment) =>
+      current.flatMap((node) =>
+        (segment.descendant ? getDescendants(node) : [node]).flatMap((target) =>
+          segment.selectors.flatMap((selector) =>
+            applySelector(target, selector, root)
+          )
+        )
+      ),
+    nodes
+  );
+};
+
+// Resolve an operand to a single value; missing values are undefined
+const getOperandValue = (operand: Operand, current: Node, root: Node) => {
+  if (operand.type === "literal") return operand.value;
+  const start = operand.root === "@" ? current : root;
+  return applySegments([start], operand.segments, root)[0]?.value;
+};
+
+const compare = (
+  operator: ComparisonOperator,
+  left: unknown,
+  right: unknown
+): boolean => {
+  switch (operator) {
+    case "==":
+      return deepEqual(left, right);
+    case "!=":
+      return !deepEqual(left, right);
+    case "=~":
+      return (
+        typeof left === "string" && right instanceof RegExp && right.test(left)
+      );
+  }
+
+  const comparable =
+    (typeof left === "number" && typeof right === "number") ||
+    (typeof left === "string" && typeof right === "string");
+  if (!comparable) return false;
+
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+  }
+};
+
+const testFilter = (
+  expression: FilterExpression,
+  current: Node,
+  root: Node
+): boolean => {
+  switch (expression.type) {
+    case "or":
+      return (
+        testFilter(expression.left, current, root) ||
+        testFilter(expression.right, current, root)
+      );
+    case "and":
+      return (
+        testFilter(expression.left, current, root) &&
+        testFilter(expression.right, current, root)
+      );
+    case "not":
+      return !testFilter(expression.operand, current, root);
+    case "exists": {
+      const start = expression.query.root === "@" ? current : root;
+      return applySegments([start], expression.query.segments, root).length > 0;
+    }
+    case "compare":
+      return compare(
+        expression.operator,
+        getOperandValue(expression.left, current, root),
+        getOperandValue(expression.right, current, root)
+      );
+  }
+};
+
+// Evaluate a JSONPath query, returning every selected node with its path
+export const evaluateJsonPath = (
+  query: string,
+  data: unknown
+): QueryMatch[] => {
+  const segments = parseJsonPath(query);
+  const root: Node = { path: [], value: data };
+  return applySegments([root], segments, root);
+};
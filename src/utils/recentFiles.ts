@@ -0,0 +1,42 @@
+import { readAppData, writeAppData } from "./appData";
+
+// Files opened or saved lately, most recent first
+
+const RECENT_FILES_FILE = "recent-files.json";
+// localStorage key used by the browser build
+const RECENT_FILES_STORAGE_KEY = "json-lens-recent-files";
+// Older files drop off the list
+const MAX_RECENT_FILES = 10;
+
+// Put files at the top of the list, the first of them topmost
+export const addRecentFiles = (recent: string[], paths: string[]): string[] =>
+  [...new Set([...paths, ...recent])].slice(0, MAX_RECENT_FILES);
+
+export const removeRecentFiles = (
+  recent: string[],
+  paths: string[]
+): string[] => recent.filter((path) => !paths.includes(path));
+
+// Read the list; an unreadable or missing list means no recent files
+export const loadRecentFiles = async (): Promise<string[]> => {
+  const text = await readAppData(RECENT_FILES_FILE, RECENT_FILES_STORAGE_KEY);
+  if (!text) return [];
+
+  try {
+    const paths: unknown = JSON.parse(text);
+    return Array.isArray(paths)
+      ? paths
+          .filter((path): path is string => typeof path === "string")
+          .slice(0, MAX_RECENT_FILES)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecentFiles = (paths: string[]): Promise<void> =>
+  writeAppData(
+    RECENT_FILES_FILE,
+    RECENT_FILES_STORAGE_KEY,
+    JSON.stringify(paths, null, 2)
+  );
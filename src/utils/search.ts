@@ -0,0 +1,175 @@
+import { getParentPaths, isJsonContainer } from "./jsonTree";
+import { appendTreePath } from "./query";
+
+export type MatchType = "key" | "string" | "primitive";
+
+export type SearchMatch = {
+  id: string;
+  path: string;
+  type: MatchType;
+};
+
+export type MatchRange = {
+  start: number;
+  end: number;
+};
+
+export type SearchValueType = "string" | "number" | "boolean" | "null";
+
+export type SearchOptions = {
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  scope: "both" | "keys" | "values";
+  // Value types whose values are searched; keys are searched regardless
+  valueTypes: SearchValueType[];
+};
+
+export const SEARCH_VALUE_TYPES: SearchValueType[] = [
+  "string",
+  "number",
+  "boolean",
+  "null",
+];
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  regex: false,
+  caseSensitive: false,
+  wholeWord: false,
+  scope: "both",
+  valueTypes: SEARCH_VALUE_TYPES,
+};
+
+// Escape special chars for regex
+export const escapeRegExp = (string: string): string => {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+};
+
+// Build the regex used for both counting and highlighting. Invalid regular
+// expressions are reported as an error instead of throwing.
+export const createSearchRegex = (
+  searchTerm: string,
+  options: SearchOptions
+): { regex: RegExp; error: null } | { regex: null; error: string } => {
+  let source = options.regex ? searchTerm : escapeRegExp(searchTerm);
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+
+  try {
+    const flags = options.caseSensitive ? "g" : "gi";
+    return { regex: new RegExp(source, flags), error: null };
+  } catch (regexError) {
+    return { regex: null, error: (regexError as Error).message };
+  }
+};
+
+export const searchesKeys = (options: SearchOptions): boolean => {
+  return options.scope !== "values";
+};
+
+// Check whether a primitive value should be searched under the options
+export const searchesValue = (
+  value: unknown,
+  options: SearchOptions
+): boolean => {
+  if (options.scope === "keys") return false;
+  const type = value === null ? "null" : typeof value;
+  return options.valueTypes.includes(type as SearchValueType);
+};
+
+// Find the position of every match of the regex within the text
+export const getMatchRanges = (text: string, regex: RegExp): MatchRange[] => {
+  const ranges: MatchRange[] = [];
+  regex.lastIndex = 0;
+
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return ranges;
+};
+
+// Unique ID for the nth match of a given type at a path
+export const getMatchId = (path: string, type: MatchType, index: number) =>
+  `${path}:${type}:${index}`;
+
+export type SearchResult = {
+  matches: SearchMatch[];
+  pathsToExpand: string[];
+};
+
+// Walk the document looking for matches in keys, strings and primitives, in
+// document order. Yields the number of nodes visited so far every chunkSize
+// nodes so that callers can report progress or stop early.
+export function* walkMatches(
+  data: unknown,
+  searchTerm: string,
+  options: SearchOptions,
+  chunkSize = 5000
+): Generator<number, SearchResult> {
+  const { regex, error } = createSearchRegex(searchTerm, options);
+  if (!regex) throw new Error(error);
+  const includeKeys = searchesKeys(options);
+  const matches: SearchMatch[] = [];
+  const pathsToExpand = new Set<string>();
+  const stack: { value: unknown; path: string; keyName?: string }[] = [
+    { value: data, path: "" },
+  ];
+  let visited = 0;
+
+  const addMatches = (text: string, path: string, type: MatchType) => {
+    const ranges = getMatchRanges(text, regex);
+    if (ranges.length === 0) return;
+
+    ranges.forEach((_, index) =>
+      matches.push({ id: getMatchId(path, type, index), path, type })
+    );
+    getParentPaths(path).forEach((parentPath) => pathsToExpand.add(parentPath));
+  };
+
+  while (stack.length > 0) {
+    const { value, path, keyName } = stack.pop()!;
+
+    if (keyName !== undefined && includeKeys) {
+      addMatches(keyName, path, "key");
+    }
+
+    if (!isJsonContainer(value)) {
+      if (searchesValue(value, options)) {
+        addMatches(
+          String(value),
+          path,
+          typeof value === "string" ? "string" : "primitive"
+        );
+      }
+    } else if (Array.isArray(value)) {
+      // Push children in reverse so they are visited in document order
+      for (let index = value.length - 1; index >= 0; index--) {
+        stack.push({ value: value[index], path: appendTreePath(path, index) });
+      }
+    } else {
+      const keys = Object.keys(value);
+      for (let index = keys.length - 1; index >= 0; index--) {
+        const key = keys[index];
+        stack.push({
+          value: (value as Record<string, unknown>)[key],
+          path: appendTreePath(path, key),
+          keyName: key,
+        });
+      }
+    }
+
+    visited++;
+    if (visited % chunkSize === 0) {
+      yield visited;
+    }
+  }
+
+  return { matches, pathsToExpand: [...pathsToExpand] };
+}
@@ -0,0 +1,105 @@
+import { readAppData, writeAppData } from "./appData";
+import { JsonDialect } from "./jsonDialect";
+import { SchemaSource } from "./jsonSchema";
+import { TreeViewState } from "./jsonTree";
+import { QueryLanguage } from "./query";
+import { SearchOptions } from "./search";
+
+// Bump when the stored shape changes; older sessions are then ignored
+const SESSION_VERSION = 2;
+// Sessions of this version stored tree paths joined with dots, which can't
+// be converted reliably. Their tabs are restored without the tree state.
+const DOT_PATHS_VERSION = 1;
+// Session file in the app data directory of the desktop app
+const SESSION_FILE = "session.json";
+// localStorage key used by the browser build
+const SESSION_STORAGE_KEY = "json-lens-session";
+
+// Unmodified documents read from a file are stored as a reference to that
+// file instead of inline once they are at least this long
+export const INLINE_CONTENT_LIMIT = 256 * 1024;
+
+export type PersistedTab = {
+  id: string;
+  name: string;
+  filePath: string | null;
+  // The document text, or null when it is read back from filePath
+  content: string | null;
+  // Whether the content differs from the file on disk
+  dirty: boolean;
+  isEditing: boolean;
+  searchTerm: string;
+  searchOptions: SearchOptions;
+  searchMode: "text" | QueryLanguage;
+  query: string;
+  readOnly?: boolean;
+  viewState: TreeViewState | null;
+  // Missing in sessions saved before schemas could be attached
+  schema?: SchemaSource | null;
+  // Missing in sessions saved before dialects; those tabs are JSON
+  dialect?: JsonDialect;
+  // Missing in sessions saved before NDJSON files could be followed
+  tail?: boolean;
+};
+
+// Two panes side by side: the editor and the tree of the active tab, or
+// the active tab next to the tree of another tab
+export type SplitLayout = {
+  // Horizontal puts the panes next to each other, vertical one above the
+  // other
+  direction: "horizontal" | "vertical";
+  // Share of the space taken by the first pane
+  ratio: number;
+  // Tab shown in the second pane; null shows the active tab's tree
+  otherTabId: string | null;
+};
+
+export type Session = {
+  version: number;
+  activeTabId: string;
+  tabs: PersistedTab[];
+  // Missing in sessions saved before the split layout
+  splitLayout?: SplitLayout | null;
+};
+
+const isSession = (value: unknown): value is Session => {
+  const session = value as Session | null;
+  return (
+    typeof session === "object" &&
+    session !== null &&
+    (session.version === SESSION_VERSION ||
+      session.version === DOT_PATHS_VERSION) &&
+    typeof session.activeTabId === "string" &&
+    Array.isArray(session.tabs)
+  );
+};
+
+// Read the saved session, or null when there is none or it can't be used
+export const loadSession = async (): Promise<Session | null> => {
+  const text = await readAppData(SESSION_FILE, SESSION_STORAGE_KEY);
+  if (!text) return null;
+
+  try {
+    const session: unknown = JSON.parse(text);
+    if (!isSession(session)) return null;
+    if (session.version === DOT_PATHS_VERSION) {
+      return {
+        ...session,
+        tabs: session.tabs.map((tab) => ({ ...tab, viewState: null })),
+      };
+    }
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = async (
+  session: Omit<Session, "version">
+): Promise<void> => {
+  await writeAppData(
+    SESSION_FILE,
+    SESSION_STORAGE_KEY,
+    JSON.stringify({ version: SESSION_VERSION, ...session })
+  );
+};
@@ -0,0 +1,118 @@
+import { hasOwn, isPlainObject } from "./query/common";
+
+// Arrays shown as a table: one row per item, one column per key found in
+// any of the items
+
+// A column holds the value of a key, or with a null key the items that
+// aren't objects. The id tells them apart even from a key named "(value)".
+export type TableColumn = { id: string; label: string; key: string | null };
+
+export type TableSort = { column: TableColumn; descending: boolean };
+
+const VALUE_COLUMN: TableColumn = { id: "value", label: "(value)", key: null };
+
+// The union of the items' keys in the order they are first seen, after the
+// column of items that aren't objects if there are any
+export const getTableColumns = (items: unknown[]): TableColumn[] => {
+  const keys = new Set<string>();
+  let hasValues = false;
+  items.forEach((item) => {
+    if (isPlainObject(item)) {
+      Object.keys(item).forEach((key) => keys.add(key));
+    } else {
+      hasValues = true;
+    }
+  });
+  const columns = [...keys].map((key) => ({
+    id: `key:${key}`,
+    label: key,
+    key,
+  }));
+  return hasValues ? [VALUE_COLUMN, ...columns] : columns;
+};
+
+// The cell of an item, undefined when the item has no such key
+export const getCellValue = (item: unknown, column: TableColumn): unknown => {
+  if (column.key === null) return isPlainObject(item) ? undefined : item;
+  return isPlainObject(item) && hasOwn(item, column.key)
+    ? item[column.key]
+    : undefined;
+};
+
+// Text of a cell; objects and arrays are written as compact JSON
+export const formatCell = (value: unknown): string => {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (value !== null && typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const TYPE_ORDER = ["number", "string", "boolean", "object"];
+
+// Numbers sort numerically and strings naturally; missing cells sort last
+const compareCells = (a: unknown, b: unknown): number => {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a !== typeof b) {
+    return TYPE_ORDER.indexOf(typeof a) - TYPE_ORDER.indexOf(typeof b);
+  }
+  return formatCell(a).localeCompare(formatCell(b), undefined, {
+    numeric: true,
+  });
+};
+
+// Indexes of the items to show, in order: those with a cell containing the
+// filter text, sorted by a column. Missing cells stay last either way.
+export const getVisibleRows = (
+  items: unknown[],
+  columns: TableColumn[],
+  filter: string,
+  sort: TableSort | null
+): number[] => {
+  const needle = filter.trim().toLowerCase();
+  const indexes = items.flatMap((item, index) =>
+    !needle ||
+    columns.some((column) =>
+      formatCell(getCellValue(item, column)).toLowerCase().includes(needle)
+    )
+      ? [index]
+      : []
+  );
+
+  if (sort) {
+    const direction = sort.descending ? -1 : 1;
+    indexes.sort((a, b) => {
+      const cellA = getCellValue(items[a], sort.column);
+      const cellB = getCellValue(items[b], sort.column);
+      if (cellA === undefined || cellB === undefined) {
+        return compareCells(cellA, cellB);
+      }
+      return compareCells(cellA, cellB) * direction || a - b;
+    });
+  }
+  return indexes;
+};
+
+// Tab-separated rows with a header, for pasting into a spreadsheet. Tabs
+// and line breaks inside cells become spaces.
+export const toTsv = (
+  items: unknown[],
+  rows: number[],
+  columns: TableColumn[]
+): string => {
+  const toField = (text: string) => text.replace(/[\t\r\n]+/g, " ");
+  return [
+    columns.map((column) => toField(column.label)).join("\t"),
+    ...rows.map((index) =>
+      columns
+        .map((column) =>
+          toField(formatCell(getCellValue(items[index], column)))
+        )
+        .join("\t")
+    ),
+  ].join("\n");
+};
@@ -0,0 +1,349 @@
+import { STRING_FORMATS } from "./jsonSchema";
+import { isPlainObject } from "./query/common";
+
+// Infer the structure of a document and describe it as a JSON Schema,
+// TypeScript declarations or Zod schemas.
+
+export type TypeOutputFormat = "json-schema" | "typescript" | "zod";
+
+export const TYPE_OUTPUT_FORMATS: { value: TypeOutputFormat; label: string }[] =
+  [
+    { value: "json-schema", label: "JSON Schema" },
+    { value: "typescript", label: "TypeScript" },
+    { value: "zod", label: "Zod" },
+  ];
+
+// Formats recognized in string values, most specific first
+const INFERRED_FORMATS = ["uuid", "date-time", "date", "time", "email", "uri"];
+
+type ObjectField = {
+  shape: Shape;
+  // Number of sampled objects that had the field
+  count: number;
+};
+
+// One kind of value seen at a location. Every kind occurs at most once in
+// a Shape; samples of the same kind are merged.
+type KindShape =
+  | { kind: "null" }
+  | { kind: "boolean" }
+  | { kind: "number"; integer: boolean }
+  // null when the strings don't all share one format
+  | { kind: "string"; format: string | null }
+  // Empty when only empty arrays were seen
+  | { kind: "array"; items: Shape }
+  | { kind: "object"; fields: Map<string, ObjectField>; samples: number };
+
+// All kinds of values seen at a location, a union when there are several
+type Shape = KindShape[];
+
+const detectFormat = (value: string): string | null =>
+  INFERRED_FORMATS.find(
+    (format) =>
+      STRING_FORMATS[format].test(value) &&
+      // Anything with a colon would pass for a URI otherwise
+      (format !== "uri" || value.includes("://"))
+  ) ?? null;
+
+const mergeKind = (a: KindShape, b: KindShape): KindShape => {
+  if (a.kind === "number" && b.kind === "number") {
+    return { kind: "number", integer: a.integer && b.integer };
+  }
+  if (a.kind === "string" && b.kind === "string") {
+    return { kind: "string", format: a.format === b.format ? a.format : null };
+  }
+  if (a.kind === "array" && b.kind === "array") {
+    return { kind: "array", items: mergeShapes(a.items, b.items) };
+  }
+  if (a.kind === "object" && b.kind === "object") {
+    const fields = new Map(a.fields);
+    b.fields.forEach((field, key) => {
+      const existing = fields.get(key);
+      fields.set(
+        key,
+        existing
+          ? {
+              shape: mergeShapes(existing.shape, field.shape),
+              count: existing.count + field.count,
+            }
+          : field
+      );
+    });
+    return { kind: "object", fields, samples: a.samples + b.samples };
+  }
+  return a;
+};
+
+const mergeShapes = (a: Shape, b: Shape): Shape => {
+  const merged = [...a];
+  b.forEach((kindShape) => {
+    const index = merged.findIndex((other) => other.kind === kindShape.kind);
+    if (index === -1) merged.push(kindShape);
+    else merged[index] = mergeKind(merged[index], kindShape);
+  });
+  return merged;
+};
+
+const inferShape = (value: unknown): Shape => {
+  if (value === null) return [{ kind: "null" }];
+  if (typeof value === "boolean") return [{ kind: "boolean" }];
+  if (typeof value === "number") {
+    return [{ kind: "number", integer: Number.isInteger(value) }];
+  }
+  if (typeof value === "string") {
+    return [{ kind: "string", format: detectFormat(value) }];
+  }
+  if (Array.isArray(value)) {
+    return [
+      {
+        kind: "array",
+        items: value.reduce<Shape>(
+          (items, item) => mergeShapes(items, inferShape(item)),
+          []
+        ),
+      },
+    ];
+  }
+  if (isPlainObject(value)) {
+    const fields = new Map<string, ObjectField>();
+    Object.entries(value).forEach(([key, fieldValue]) =>
+      fields.set(key, { shape: inferShape(fieldValue), count: 1 })
+    );
+    return [{ kind: "object", fields, samples: 1 }];
+  }
+  return [];
+};
+
+const isOptional = (field: ObjectField, samples: number) =>
+  field.count < samples;
+
+// Keys that aren't identifiers are quoted
+const formatKey = (key: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+
+// "user_list" -> "UserList"; names that don't start with a letter get a
+// prefix so they stay identifiers
+const toTypeName = (text: string) => {
+  const name = text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[A-Za-z]/.test(name) ? name : `Type${name}`;
+};
+
+// Name for the items of an array field: "users" -> "User"
+const toItemName = (name: string) =>
+  name.length > 3 && /[^s]s$/.test(name) ? name.slice(0, -1) : `${name}Item`;
+
+// Objects of the document get named declarations. Names are assigned in
+// document order, parents before their children.
+type NamedObject = {
+  name: string;
+  shape: Extract<KindShape, { kind: "object" }>;
+};
+
+const nameObjects = (root: Shape, rootName: string) => {
+  const declarations: NamedObject[] = [];
+  const names = new Map<KindShape, string>();
+  const usedNames = new Set<string>();
+
+  const visit = (shape: Shape, name: string) => {
+    shape.forEach((kindShape) => {
+      if (kindShape.kind === "array") {
+        visit(kindShape.items, toItemName(name));
+      } else if (kindShape.kind === "object" && kindShape.fields.size > 0) {
+        let uniqueName = name;
+        for (let n = 2; usedNames.has(uniqueName); n++) {
+          uniqueName = `${name}${n}`;
+        }
+        usedNames.add(uniqueName);
+        names.set(kindShape, uniqueName);
+        declarations.push({ name: uniqueName, shape: kindShape });
+
+        kindShape.fields.forEach((field, key) =>
+          visit(field.shape, toTypeName(key))
+        );
+      }
+    });
+  };
+
+  visit(root, toTypeName(rootName));
+  return { declarations, names };
+};
+
+const toSchemaNode = (shape: Shape): Record<string, unknown> => {
+  const members = shape.map((kindShape): Record<string, unknown> => {
+    switch (kindShape.kind) {
+      case "number":
+        return { type: kindShape.integer ? "integer" : "number" };
+      case "string":
+        return kindShape.format
+          ? { type: "string", format: kindShape.format }
+          : { type: "string" };
+      case "array":
+        return kindShape.items.length > 0
+          ? { type: "array", items: toSchemaNode(kindShape.items) }
+          : { type: "array" };
+      case "object": {
+        const properties: Record<string, unknown> = {};
+        const required: string[] = [];
+        kindShape.fields.forEach((field, key) => {
+          properties[key] = toSchemaNode(field.shape);
+          if (!isOptional(field, kindShape.samples)) required.push(key);
+        });
+        return {
+          type: "object",
+          properties,
+          ...(required.length > 0 ? { required } : {}),
+        };
+      }
+      default:
+        return { type: kindShape.kind };
+    }
+  });
+
+  if (members.length === 0) return {};
+  if (members.length === 1) return members[0];
+  // Unions of plain types are written as a list of types
+  return members.every((member) => Object.keys(member).length === 1)
+    ? { type: members.map((member) => member.type) }
+    : { anyOf: members };
+};
+
+const generateJsonSchema = (shape: Shape, rootName: string) => {
+  return JSON.stringify(
+    {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      title: toTypeName(rootName),
+      ...toSchemaNode(shape),
+    },
+    null,
+    2
+  );
+};
+
+const generateTypeScript = (shape: Shape, rootName: string) => {
+  const { declarations, names } = nameObjects(shape, rootName);
+
+  const toType = (fieldShape: Shape): string => {
+    if (fieldShape.length === 0) return "unknown";
+    const members = fieldShape.map((kindShape) => {
+      switch (kindShape.kind) {
+        case "array": {
+          const items = toType(kindShape.items);
+          return kindShape.items.length > 1 ? `(${items})[]` : `${items}[]`;
+        }
+        case "object":
+          return names.get(kindShape) ?? "Record<string, unknown>";
+        default:
+          return kindShape.kind;
+      }
+    });
+    return members.join(" | ");
+  };
+
+  const blocks = declarations.map(({ name, shape: objectShape }) => {
+    const fields = [...objectShape.fields].map(([key, field]) => {
+      const optional = isOptional(field, objectShape.samples) ? "?" : "";
+      return `  ${formatKey(key)}${optional}: ${toType(field.shape)};`;
+    });
+    return `export interface ${name} {\n${fields.join("\n")}\n}`;
+  });
+
+  // Documents that aren't a single object are described by a type alias
+  const rootIsNamed = shape.length === 1 && names.has(shape[0]);
+  if (!rootIsNamed) {
+    blocks.unshift(`export type ${toTypeName(rootName)} = ${toType(shape)};`);
+  }
+  return blocks.join("\n\n") + "\n";
+};
+
+const ZOD_FORMATS: Record<string, string> = {
+  uuid: ".uuid()",
+  "date-time": ".datetime({ offset: true })",
+  date: ".date()",
+  time: ".time()",
+  email: ".email()",
+  uri: ".url()",
+};
+
+const generateZod = (shape: Shape, rootName: string) => {
+  const { declarations, names } = nameObjects(shape, rootName);
+  const schemaName = (name: string) => `${name}Schema`;
+
+  const toSchema = (fieldShape: Shape): string => {
+    if (fieldShape.length === 0) return "z.unknown()";
+    const members = fieldShape.map((kindShape) => {
+      switch (kindShape.kind) {
+        case "null":
+          return "z.null()";
+        case "boolean":
+          return "z.boolean()";
+        case "number":
+          return kindShape.integer ? "z.number().int()" : "z.number()";
+        case "string":
+          return `z.string()${
+            kindShape.format ? ZOD_FORMATS[kindShape.format] : ""
+          }`;
+        case "array":
+          return `z.array(${toSchema(kindShape.items)})`;
+        case "object": {
+          const name = names.get(kindShape);
+          return name ? schemaName(name) : "z.record(z.unknown())";
+        }
+      }
+    });
+    return members.length === 1
+      ? members[0]
+      : `z.union([${members.join(", ")}])`;
+  };
+
+  // Children are declared before the parents that refer to them
+  const blocks = [...declarations]
+    .reverse()
+    .map(({ name, shape: objectShape }) => {
+      const fields = [...objectShape.fields].map(([key, field]) => {
+        const optional = isOptional(field, objectShape.samples)
+          ? ".optional()"
+          : "";
+        return `  ${formatKey(key)}: ${toSchema(field.shape)}${optional},`;
+      });
+      return [
+        `export const ${schemaName(name)} = z.object({`,
+        ...fields,
+        "});",
+        `export type ${name} = z.infer<typeof ${schemaName(name)}>;`,
+      ].join("\n");
+    });
+
+  const rootIsNamed = shape.length === 1 && names.has(shape[0]);
+  if (!rootIsNamed) {
+    const name = toTypeName(rootName);
+    blocks.push(
+      [
+        `export const ${schemaName(name)} = ${toSchema(shape)};`,
+        `export type ${name} = z.infer<typeof ${schemaName(name)}>;`,
+      ].join("\n")
+    );
+  }
+  return ['import { z } from "zod";', ...blocks].join("\n\n") + "\n";
+};
+
+// Describe a document in the given format. rootName names the type of the
+// whole document.
+export const generateTypes = (
+  data: unknown,
+  format: TypeOutputFormat,
+  rootName: string
+): string => {
+  const shape = inferShape(data);
+  switch (format) {
+    case "json-schema":
+      return generateJsonSchema(shape, rootName);
+    case "typescript":
+      return generateTypeScript(shape, rootName);
+    case "zod":
+      return generateZod(shape, rootName);
+  }
+};
@@ -0,0 +1,279 @@
+import { diffJson, DiffOptions } from "../utils/jsonDiff";
+import { JsonDialect, parseDocument } from "../utils/jsonDialect";
+import { findNodeRange, findPathAtOffset } from "../utils/jsonLocation";
+import { validateJson } from "../utils/jsonSchema";
+import { countNodes } from "../utils/jsonTree";
+import { evaluateQuery, QueryLanguage } from "../utils/query";
+import { SearchOptions, walkMatches } from "../utils/search";
+import { generateTypes, TypeOutputFormat } from "../utils/typeInference";
+import { WorkerProgress, WorkerRequest, WorkerResponse } from "./protocol";
+
+// Parsed documents kept in the worker so searches don't have to resend them
+const documents = new Map<string, { data: unknown; nodeCount: number }>();
+// Requests that are still running, and those of them that were cancelled
+const runningIds = new Set<number>();
+const cancelledIds = new Set<number>();
+
+const post = (response: WorkerResponse) => {
+  self.postMessage(response);
+};
+
+const postProgress = (id: number, progress: WorkerProgress) => {
+  post({ type: "progress", id, progress });
+};
+
+// Give the event loop a chance to deliver cancel messages
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const storeDocument = (docId: string, data: unknown, id?: number) => {
+  if (id !== undefined) {
+    postProgress(id, { phase: "indexing" });
+  }
+  documents.set(docId, {
+    data,
+    nodeCount: countNodes(data, Number.POSITIVE_INFINITY),
+  });
+};
+
+const parse = (
+  id: number,
+  docId: string,
+  text: string,
+  requestedDialect: JsonDialect | null
+) => {
+  postProgress(id, { phase: "parsing", total: text.length });
+
+  const { dialect, value, diagnostics } = parseDocument(text, requestedDialect);
+  if (diagnostics.length > 0 || value === undefined) {
+    const first = diagnostics[0];
+    post({
+      type: "parsed",
+      id,
+      result: {
+        ok: false,
+        error: first
+          ? `${first.message} at line ${first.line}, column ${first.column}`
+          : "Empty document",
+        diagnostics,
+        recovered: value,
+        dialect,
+      },
+    });
+    return;
+  }
+
+  storeDocument(docId, value, id);
+  post({ type: "parsed", id, result: { ok: true, value, dialect } });
+};
+
+const search = async (
+  id: number,
+  docId: string,
+  searchTerm: string,
+  options: SearchOptions
+) => {
+  const document = documents.get(docId);
+  if (!document) {
+    post({ type: "failed", id, error: `Unknown document ${docId}` });
+    return;
+  }
+
+  // An invalid regex surfaces on the first step
+  const walker = walkMatches(document.data, searchTerm, options);
+  let step;
+  try {
+    step = walker.next();
+  } catch (searchError) {
+    post({ type: "failed", id, error: (searchError as Error).message });
+    return;
+  }
+
+  while (!step.done) {
+    postProgress(id, {
+      phase: "searching",
+      loaded: step.value,
+      total: document.nodeCount,
+    });
+    await yieldToEventLoop();
+
+    if (cancelledIds.has(id)) {
+      post({ type: "cancelled", id });
+      return;
+    }
+    step = walker.next();
+  }
+
+  post({ type: "searched", id, result: step.value });
+};
+
+const query = (
+  id: number,
+  docId: string,
+  language: QueryLanguage,
+  queryText: string
+) => {
+  const document = documents.get(docId);
+  if (!document) {
+    post({ type: "failed", id, error: `Unknown document ${docId}` });
+    return;
+  }
+
+  post({
+    type: "queried",
+    id,
+    result: evaluateQuery(language, queryText, document.data),
+  });
+};
+
+const diff = (
+  id: number,
+  leftDocId: string,
+  rightDocId: string,
+  options: DiffOptions
+) => {
+  const left = documents.get(leftDocId);
+  const right = documents.get(rightDocId);
+  if (!left || !right) {
+    post({
+      type: "failed",
+      id,
+      error: `Unknown document ${left ? rightDocId : leftDocId}`,
+    });
+    return;
+  }
+
+  post({
+    type: "diffed",
+    id,
+    result: diffJson(left.data, right.data, options),
+  });
+};
+
+const validate = (id: number, docId: string, schema: unknown) => {
+  const document = documents.get(docId);
+  if (!document) {
+    post({ type: "failed", id, error: `Unknown document ${docId}` });
+    return;
+  }
+
+  post({ type: "validated", id, result: validateJson(document.data, schema) });
+};
+
+const infer = (
+  id: number,
+  docId: string,
+  format: TypeOutputFormat,
+  rootName: string
+) => {
+  const document = documents.get(docId);
+  if (!document) {
+    post({ type: "failed", id, error: `Unknown document ${docId}` });
+    return;
+  }
+
+  post({
+    type: "inferred",
+    id,
+    result: generateTypes(document.data, format, rootName),
+  });
+};
+
+// Run the handler of a request, answering it as failed when it throws,
+// e.g. with a RangeError on very deeply nested input. A cancel is only kept
+// while its request runs.
+const handle = (id: number, handler: () => void | Promise<void>) => {
+  const finish = () => {
+    runningIds.delete(id);
+    cancelledIds.delete(id);
+  };
+  const fail = (requestError: unknown) =>
+    post({
+      type: "failed",
+      id,
+      error:
+        requestError instanceof Error
+          ? requestError.message
+          : String(requestError),
+    });
+  runningIds.add(id);
+  try {
+    Promise.resolve(handler()).catch(fail).finally(finish);
+  } catch (requestError) {
+    fail(requestError);
+    finish();
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "parse":
+      handle(request.id, () =>
+        parse(request.id, request.docId, request.text, request.dialect)
+      );
+      break;
+    case "load":
+      // A document that can't be stored fails the request that needs it
+      try {
+        storeDocument(request.docId, request.data);
+      } catch {
+        documents.delete(request.docId);
+      }
+      break;
+    case "search":
+      handle(request.id, () =>
+        search(request.id, request.docId, request.searchTerm, request.options)
+      );
+      break;
+    case "query":
+      handle(request.id, () =>
+        query(request.id, request.docId, request.language, request.query)
+      );
+      break;
+    case "diff":
+      handle(request.id, () =>
+        diff(request.id, request.leftDocId, request.rightDocId, request.options)
+      );
+      break;
+    case "validate":
+      handle(request.id, () =>
+        validate(request.id, request.docId, request.schema)
+      );
+      break;
+    case "infer":
+      handle(request.id, () =>
+        infer(request.id, request.docId, request.format, request.rootName)
+      );
+      break;
+    case "findPath":
+      handle(request.id, () =>
+        post({
+          type: "foundPath",
+          id: request.id,
+          result: findPathAtOffset(
+            request.text,
+            request.dialect,
+            request.offset
+          ),
+        })
+      );
+      break;
+    case "findRange":
+      handle(request.id, () =>
+        post({
+          type: "foundRange",
+          id: request.id,
+          result: findNodeRange(request.text, request.dialect, request.path),
+        })
+      );
+      break;
+    case "cancel":
+      if (runningIds.has(request.id)) cancelledIds.add(request.id);
+      break;
+    case "release":
+      documents.delete(request.docId);
+      break;
+  }
+};
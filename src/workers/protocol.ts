@@ -0,0 +1,98 @@
+import { DiffOptions, DiffResult } from "../utils/jsonDiff";
+import { JsonDialect } from "../utils/jsonDialect";
+import { TextRange } from "../utils/jsonLocation";
+import { ParseDiagnostic } from "../utils/jsonParser";
+import { ValidationResult } from "../utils/jsonSchema";
+import { PathSegment, QueryLanguage, QueryResult } from "../utils/query";
+import { SearchOptions, SearchResult } from "../utils/search";
+import { TypeOutputFormat } from "../utils/typeInference";
+
+// Messages exchanged between the main thread and the JSON worker
+
+// Parsing runs in one step, so only the size of the text is known; a
+// search reports how many of the document's nodes it has visited
+export type WorkerProgress =
+  | { phase: "parsing"; total: number }
+  | { phase: "indexing" }
+  | { phase: "searching"; loaded: number; total: number };
+
+// A failed parse still carries what the tolerant parser recovered. Both
+// name the dialect the text was parsed as.
+export type ParseResult =
+  | { ok: true; value: unknown; dialect: JsonDialect }
+  | {
+      ok: false;
+      error: string;
+      diagnostics: ParseDiagnostic[];
+      recovered: unknown;
+      dialect: JsonDialect;
+    };
+
+export type WorkerRequest =
+  | {
+      type: "parse";
+      id: number;
+      docId: string;
+      text: string;
+      // null detects the dialect from the text
+      dialect: JsonDialect | null;
+    }
+  | { type: "load"; docId: string; data: unknown }
+  | {
+      type: "search";
+      id: number;
+      docId: string;
+      searchTerm: string;
+      options: SearchOptions;
+    }
+  | {
+      type: "query";
+      id: number;
+      docId: string;
+      language: QueryLanguage;
+      query: string;
+    }
+  | {
+      type: "diff";
+      id: number;
+      leftDocId: string;
+      rightDocId: string;
+      options: DiffOptions;
+    }
+  | { type: "validate"; id: number; docId: string; schema: unknown }
+  | {
+      type: "infer";
+      id: number;
+      docId: string;
+      format: TypeOutputFormat;
+      rootName: string;
+    }
+  | {
+      type: "findPath";
+      id: number;
+      text: string;
+      dialect: JsonDialect;
+      offset: number;
+    }
+  | {
+      type: "findRange";
+      id: number;
+      text: string;
+      dialect: JsonDialect;
+      path: PathSegment[];
+    }
+  | { type: "cancel"; id: number }
+  | { type: "release"; docId: string };
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: WorkerProgress }
+  | { type: "parsed"; id: number; result: ParseResult }
+  | { type: "searched"; id: number; result: SearchResult }
+  | { type: "queried"; id: number; result: QueryResult }
+  | { type: "diffed"; id: number; result: DiffResult }
+  | { type: "validated"; id: number; result: ValidationResult }
+  | { type: "inferred"; id: number; result: string }
+  | { type: "foundPath"; id: number; result: PathSegment[] }
+  | { type: "foundRange"; id: number; result: TextRange | null }
+  | { type: "cancelled"; id: number }
+  | { type: "failed"; id: number; error: string };